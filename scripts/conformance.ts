@@ -0,0 +1,946 @@
+/**
+ * 协议一致性测试：对每个 SDK 实现运行同一组用例。
+ * 阿里云、腾讯云、金山云和 S3 的 SDK 连接本地的 emulator，同时校验签名；Fs 和 Memory 实现直接运行。
+ * minio 的 SDK 默认连接 emulator 测试。真实的 minio 服务默认不测试，
+ * 设置 MINIO_ENDPOINT（以及 MINIO_PORT、MINIO_ACCESS_KEY、MINIO_SECRET_KEY）后才会运行。
+ *
+ * 运行：`pnpm test`，可以通过第一个参数过滤用例名称。
+ */
+import assert from 'assert/strict';
+import { createHash } from 'crypto';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { get } from 'http';
+import { tmpdir } from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { gunzipSync } from 'zlib';
+import type { BaseObjectStorageSDK, CredentialProvider, Credentials } from '../src';
+import {
+  ABORTED_ERR,
+  AccessDeniedError,
+  AliyunObjectStorageSDK,
+  CallbackCredentialProvider,
+  DecryptionError,
+  EncryptedObjectStorage,
+  FsObjectStorageSDK,
+  KsyunObjectStorageSDK,
+  LocalKeyWrappingProvider,
+  MemoryObjectStorageSDK,
+  MinioObjectStorageSDK,
+  NotFoundError,
+  ObjectStorageError,
+  PreconditionFailedError,
+  RestoreRequiredError,
+  S3ObjectStorageSDK,
+  TOO_LARGE_ERR,
+  ThrottledError,
+  TxyunObjectStorageSDK,
+  createObjectStorage,
+  parseObjectStorageUrl,
+} from '../src';
+import type { Emulator } from './emulator';
+import { startEmulator } from './emulator';
+
+const ACCESS_KEY = 'conformance-ak';
+const SECRET_KEY = 'conformance-sk';
+const SECURITY_TOKEN = 'conformance-sts-token';
+
+type TargetOptions = { secretKey?: string; maxAttempts?: number; credentials?: CredentialProvider };
+
+type Target = {
+  name: string;
+  /** 用户元数据的请求头前缀 */
+  metaPrefix: string;
+  create(options?: TargetOptions): BaseObjectStorageSDK;
+  /** 连接 emulator 的 SDK，可以测试签名、错误映射和预签名 url */
+  emulator?: boolean;
+  /** 不支持归档存储，例如 minio */
+  noArchive?: boolean;
+  /** 不支持 KMS 服务端加密，例如金山云 */
+  noKms?: boolean;
+  /** 不支持 SSE-C，例如阿里云和 minio */
+  noCustomerKey?: boolean;
+  /** 只支持 `/` 作为 delimiter，例如 minio */
+  onlySlashDelimiter?: boolean;
+  /** MemoryObjectStorageSDK，可以注入故障 */
+  memory?: boolean;
+  /** FsObjectStorageSDK，可以直接修改 root 下的文件 */
+  fs?: boolean;
+};
+
+type Case = {
+  name: string;
+  /** 只在连接 emulator 的 SDK 上运行 */
+  emulatorOnly?: boolean;
+  /** 只在 MemoryObjectStorageSDK 上运行 */
+  memoryOnly?: boolean;
+  /** 只在 FsObjectStorageSDK 上运行 */
+  fsOnly?: boolean;
+  run(sdk: BaseObjectStorageSDK, target: Target): Promise<void>;
+};
+
+let emulator: Emulator;
+let tmp: string;
+
+async function readBuffer(stream?: Readable): Promise<Buffer> {
+  assert.ok(stream, 'stream should exist');
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
+
+async function readAll(stream?: Readable): Promise<string> {
+  return (await readBuffer(stream)).toString();
+}
+
+/** 超过 limit 时所有实现都抛出同一个单例，兼容 `===` 判断 */
+function isTooLargeErr(err: unknown): boolean {
+  return err === TOO_LARGE_ERR;
+}
+
+function httpGet(url: string): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    get(url, (res) => {
+      readAll(res).then((body) => resolve({ status: res.statusCode ?? 0, body }), reject);
+    }).on('error', reject);
+  });
+}
+
+const sha256 = (s: string) => createHash('sha256').update(s).digest('hex');
+
+const cases: Case[] = [
+  {
+    name: 'write and read with content-type and user metadata',
+    async run(sdk, target) {
+      await sdk.writeObject('dir/hello world.txt', Readable.from([Buffer.from('hello')]), {
+        contentType: 'text/plain',
+        headers: { [`${target.metaPrefix}author`]: 'conformance' },
+      });
+      const result = await sdk.readObject('dir/hello world.txt');
+      assert.equal(await readAll(result?.stream), 'hello');
+      const info = await sdk.headObject('dir/hello world.txt');
+      assert.equal(info?.size, 5);
+      assert.equal(info?.contentType, 'text/plain');
+      assert.equal(info?.etag, createHash('md5').update('hello').digest('hex'));
+      assert.deepEqual(info?.metadata, { author: 'conformance' });
+    },
+  },
+  {
+    name: 'vendor headers in options.headers are signed and sent',
+    emulatorOnly: true,
+    async run(sdk, target) {
+      // 厂商前缀的头需要参与签名，名称互为前缀时也要按名称排序
+      const headers = { [`${target.metaPrefix}a`]: '1', [`${target.metaPrefix}a-b`]: '2' };
+      await sdk.writeObject('headers/stream', Readable.from([Buffer.from('stream')]), { headers });
+      await sdk.writeObject('headers/buffer', Buffer.from('buffer'), { headers });
+      assert.deepEqual((await sdk.headObject('headers/stream'))?.metadata, { a: '1', 'a-b': '2' });
+      assert.deepEqual((await sdk.headObject('headers/buffer'))?.metadata, { a: '1', 'a-b': '2' });
+    },
+  },
+  {
+    name: 'missing keys return null',
+    async run(sdk) {
+      assert.equal(await sdk.readObject('missing/key'), null);
+      assert.equal(await sdk.headObject('missing/key'), null);
+      await sdk.deleteObject('missing/key');
+    },
+  },
+  {
+    name: 'range read',
+    async run(sdk) {
+      await sdk.writeObject('range.txt', Buffer.from('0123456789'));
+      const result = await sdk.readObject('range.txt', { range: { start: 2, end: 5 } });
+      assert.equal(await readAll(result?.stream), '2345');
+      assert.equal(result?.contentRange, 'bytes 2-5/10');
+      assert.equal(result?.totalSize, 10);
+      const tail = await sdk.readObject('range.txt', { range: { start: 7 } });
+      assert.equal(await readAll(tail?.stream), '789');
+    },
+  },
+  {
+    name: 'calcHash returns the hash of the whole body',
+    async run(sdk) {
+      const hash = await sdk.writeObject('hash.txt', Readable.from([Buffer.from('abc'), Buffer.from('def')]), {
+        calcHash: 'sha256',
+      });
+      assert.equal(hash, sha256('abcdef'));
+      // limit 为 0 表示不限制大小
+      const hash2 = await sdk.writeObject('hash.txt', Readable.from([Buffer.from('abc')]), {
+        calcHash: 'sha256',
+        limit: 0,
+      });
+      assert.equal(hash2, sha256('abc'));
+    },
+  },
+  {
+    name: 'limit rejects oversized bodies',
+    async run(sdk) {
+      await sdk.writeObject('limit.txt', Readable.from([Buffer.from('12345')]), { limit: 5 });
+      await assert.rejects(
+        sdk.writeObject('limit.txt', Readable.from([Buffer.from('123'), Buffer.from('456')]), { limit: 5 }),
+        isTooLargeErr,
+      );
+      await assert.rejects(sdk.writeObject('limit.txt', Buffer.from('123456'), { limit: 5 }), isTooLargeErr);
+      assert.equal(await readAll((await sdk.readObject('limit.txt'))?.stream), '12345');
+    },
+  },
+  {
+    name: 'calcHash and limit together',
+    async run(sdk) {
+      const hash = await sdk.writeObject('hash-limit.txt', Readable.from([Buffer.from('12'), Buffer.from('345')]), {
+        calcHash: 'md5',
+        limit: 5,
+      });
+      assert.equal(hash, createHash('md5').update('12345').digest('hex'));
+      await assert.rejects(
+        sdk.writeObject('hash-limit.txt', Readable.from([Buffer.from('123'), Buffer.from('456')]), {
+          calcHash: 'md5',
+          limit: 5,
+        }),
+        isTooLargeErr,
+      );
+      assert.equal(await readAll((await sdk.readObject('hash-limit.txt'))?.stream), '12345');
+    },
+  },
+  {
+    name: 'replayable bodies',
+    async run(sdk) {
+      const file = path.join(tmp, 'body.txt');
+      writeFileSync(file, 'from file');
+      await sdk.writeObject('body/file', file);
+      await sdk.writeObject('body/factory', () => Readable.from([Buffer.from('from factory')]));
+      assert.equal(await readAll((await sdk.readObject('body/file'))?.stream), 'from file');
+      assert.equal(await readAll((await sdk.readObject('body/factory'))?.stream), 'from factory');
+    },
+  },
+  {
+    name: 'local file larger than one aws-chunked chunk',
+    async run(sdk) {
+      const file = path.join(tmp, 'large.txt');
+      const content = 'x'.repeat(150 * 1024 + 7);
+      writeFileSync(file, content);
+      assert.equal(await sdk.writeObject('body/large', file, { calcHash: 'sha256' }), sha256(content));
+      assert.equal(await readAll((await sdk.readObject('body/large'))?.stream), content);
+    },
+  },
+  {
+    name: 'conditional read and write',
+    async run(sdk) {
+      await sdk.writeObject('cond.txt', Buffer.from('v1'));
+      const info = await sdk.headObject('cond.txt');
+      assert.ok(info);
+      assert.deepEqual(await sdk.readObject('cond.txt', { ifNoneMatch: info.etag }), { notModified: true });
+      await assert.rejects(sdk.readObject('cond.txt', { ifMatch: 'not-the-etag' }), PreconditionFailedError);
+      await assert.rejects(
+        sdk.writeObject('cond.txt', Buffer.from('v2'), { ifNoneMatch: '*' }),
+        PreconditionFailedError,
+      );
+      await sdk.writeObject('cond.txt', Buffer.from('v2'), { ifMatch: info.etag });
+      assert.equal(await readAll((await sdk.readObject('cond.txt'))?.stream), 'v2');
+    },
+  },
+  {
+    name: 'list with delimiter and pagination',
+    async run(sdk, target) {
+      for (const key of ['list/a', 'list/b/1', 'list/b/2', 'list/c', 'list/d/1']) {
+        await sdk.writeObject(key, Buffer.from(key));
+      }
+      const page = await sdk.listObjects({ prefix: 'list/', delimiter: '/' });
+      assert.deepEqual(
+        page.objects.map((o) => o.key),
+        ['list/a', 'list/c'],
+      );
+      assert.deepEqual(page.commonPrefixes, ['list/b/', 'list/d/']);
+      // 从 commonPrefix 继续列举时不会再次返回该 commonPrefix
+      const resumed = await sdk.listObjects({ prefix: 'list/', delimiter: '/', startAfter: 'list/b/' });
+      assert.deepEqual(
+        resumed.objects.map((o) => o.key),
+        ['list/c'],
+      );
+      assert.deepEqual(resumed.commonPrefixes, ['list/d/']);
+      const entries: string[] = [];
+      let token: string | undefined;
+      do {
+        const p = await sdk.listObjects({ prefix: 'list/', delimiter: '/', maxKeys: 1, continuationToken: token });
+        entries.push(...p.objects.map((o) => o.key), ...p.commonPrefixes);
+        token = p.nextContinuationToken;
+      } while (token);
+      assert.deepEqual(entries, ['list/a', 'list/b/', 'list/c', 'list/d/']);
+      if (target.onlySlashDelimiter) {
+        await assert.rejects(sdk.listObjects({ prefix: 'list/', delimiter: '-' }), /delimiter/);
+      }
+      const keys: string[] = [];
+      for await (const obj of sdk.iterateObjects({ prefix: 'list/', maxKeys: 2 })) {
+        keys.push(obj.key);
+      }
+      assert.deepEqual(keys, ['list/a', 'list/b/1', 'list/b/2', 'list/c', 'list/d/1']);
+    },
+  },
+  {
+    name: 'delete, deleteObjects and deletePrefix',
+    async run(sdk) {
+      for (const key of ['del/a', 'del/b', 'del/c/1', 'del/c/2']) {
+        await sdk.writeObject(key, Buffer.from(key));
+      }
+      await sdk.deleteObject('del/a');
+      assert.equal(await sdk.headObject('del/a'), null);
+      const result = await sdk.deleteObjects(['del/b']);
+      assert.deepEqual(result, { deleted: ['del/b'], errors: [] });
+      await sdk.deletePrefix('del/');
+      assert.deepEqual((await sdk.listObjects({ prefix: 'del/' })).objects, []);
+    },
+  },
+  {
+    name: 'copy and move',
+    async run(sdk, target) {
+      await sdk.writeObject('copy/src', Buffer.from('copy me'), {
+        contentType: 'text/plain',
+        headers: { [`${target.metaPrefix}k`]: 'v' },
+      });
+      await sdk.copyObject('copy/src', 'copy/dest');
+      const info = await sdk.headObject('copy/dest');
+      assert.equal(info?.contentType, 'text/plain');
+      assert.deepEqual(info?.metadata, { k: 'v' });
+      await sdk.copyObject('copy/src', 'copy/replaced', { metadataDirective: 'REPLACE', contentType: 'text/html' });
+      assert.equal((await sdk.headObject('copy/replaced'))?.contentType, 'text/html');
+      await sdk.moveObject('copy/dest', 'copy/moved');
+      assert.equal(await sdk.headObject('copy/dest'), null);
+      assert.equal(await readAll((await sdk.readObject('copy/moved'))?.stream), 'copy me');
+    },
+  },
+  {
+    name: 'user metadata option with non-ASCII values',
+    async run(sdk) {
+      const metadata = { Author: '张三', plain: 'ascii', padded: ' spaced ' };
+      const expected = { author: '张三', plain: 'ascii', padded: ' spaced ' };
+      await sdk.writeObject('meta/a.txt', Buffer.from('meta'), { metadata });
+      const result = await sdk.readObject('meta/a.txt');
+      result?.stream?.resume();
+      assert.deepEqual(result?.metadata, expected);
+      assert.deepEqual((await sdk.headObject('meta/a.txt'))?.metadata, expected);
+      await sdk.copyObject('meta/a.txt', 'meta/copied.txt');
+      assert.deepEqual((await sdk.headObject('meta/copied.txt'))?.metadata, expected);
+      await sdk.copyObject('meta/a.txt', 'meta/replaced.txt', {
+        metadataDirective: 'REPLACE',
+        metadata: { note: 'ünïcode' },
+      });
+      assert.deepEqual((await sdk.headObject('meta/replaced.txt'))?.metadata, { note: 'ünïcode' });
+      await sdk.uploadLarge('meta/large.bin', Readable.from([Buffer.from('0123456789')]), {
+        partSize: 6,
+        metadata,
+      });
+      assert.deepEqual((await sdk.headObject('meta/large.bin'))?.metadata, expected);
+      await assert.rejects(sdk.writeObject('meta/bad.txt', Buffer.from(''), { metadata: { 'bad key': 'x' } }));
+    },
+  },
+  {
+    name: 'object tagging',
+    async run(sdk) {
+      await sdk.writeObject('tags/a.txt', Buffer.from('tagged'), { tags: { tenant: 'acme corp', tier: 'hot' } });
+      assert.deepEqual(await sdk.getObjectTagging('tags/a.txt'), { tenant: 'acme corp', tier: 'hot' });
+      await sdk.putObjectTagging('tags/a.txt', { tier: 'cold', source: 'a&b=c' });
+      assert.deepEqual(await sdk.getObjectTagging('tags/a.txt'), { tier: 'cold', source: 'a&b=c' });
+      await sdk.copyObject('tags/a.txt', 'tags/copy.txt');
+      assert.deepEqual(await sdk.getObjectTagging('tags/copy.txt'), { tier: 'cold', source: 'a&b=c' });
+      await sdk.deleteObjectTagging('tags/a.txt');
+      assert.deepEqual(await sdk.getObjectTagging('tags/a.txt'), {});
+      await sdk.uploadLarge('tags/large.bin', Readable.from([Buffer.from('0123456789')]), {
+        partSize: 6,
+        tags: { tier: 'archive' },
+      });
+      assert.deepEqual(await sdk.getObjectTagging('tags/large.bin'), { tier: 'archive' });
+      await assert.rejects(sdk.getObjectTagging('tags/missing'), NotFoundError);
+    },
+  },
+  {
+    name: 'storage class, acl and restore',
+    async run(sdk, target) {
+      if (target.noArchive) {
+        await assert.rejects(
+          sdk.writeObject('cold/a.txt', Buffer.from('cold'), { storageClass: 'ARCHIVE' }),
+          /does not support storage class/,
+        );
+        return;
+      }
+      await sdk.writeObject('cold/a.txt', Buffer.from('cold'), {
+        storageClass: 'IA',
+        acl: 'private',
+        metadata: { owner: 'ops' },
+      });
+      assert.equal((await sdk.headObject('cold/a.txt'))?.storageClass, 'IA');
+      assert.equal((await sdk.listObjects({ prefix: 'cold/' })).objects[0].storageClass, 'IA');
+      await sdk.setStorageClass('cold/a.txt', 'ARCHIVE');
+      const archived = await sdk.headObject('cold/a.txt');
+      assert.equal(archived?.storageClass, 'ARCHIVE');
+      assert.equal(archived?.restore, undefined);
+      assert.deepEqual(archived?.metadata, { owner: 'ops' });
+      await assert.rejects(sdk.readObject('cold/a.txt'), RestoreRequiredError);
+      await assert.rejects(sdk.copyObject('cold/a.txt', 'cold/b.txt'), RestoreRequiredError);
+      await sdk.restoreObject('cold/a.txt', { days: 2, tier: 'Expedited' });
+      const restored = await sdk.headObject('cold/a.txt');
+      assert.equal(restored?.restore?.ongoing, false);
+      assert.ok((restored?.restore?.expiresAt?.getTime() ?? 0) > Date.now() + 24 * 60 * 60 * 1000);
+      assert.equal(await readAll((await sdk.readObject('cold/a.txt'))?.stream), 'cold');
+      await sdk.setStorageClass('cold/a.txt', 'STANDARD');
+      assert.notEqual((await sdk.headObject('cold/a.txt'))?.storageClass, 'ARCHIVE');
+      await sdk.uploadLarge('cold/large.bin', Readable.from([Buffer.from('0123456789')]), {
+        partSize: 6,
+        storageClass: 'ARCHIVE',
+      });
+      assert.equal((await sdk.headObject('cold/large.bin'))?.storageClass, 'ARCHIVE');
+      const err = await sdk.restoreObject('cold/a.txt').catch((ex) => ex);
+      assert.ok(err instanceof Error && !(err instanceof RestoreRequiredError), `${err}`);
+    },
+  },
+  {
+    name: 'server-side encryption',
+    async run(sdk, target) {
+      await sdk.writeObject('sse/provider.txt', Buffer.from('provider'), { encryption: { type: 'provider' } });
+      const provider = await sdk.readObject('sse/provider.txt');
+      assert.equal(await readAll(provider?.stream), 'provider');
+      assert.equal(provider?.info?.encryption, 'provider');
+      if (target.noKms) {
+        await assert.rejects(
+          sdk.writeObject('sse/kms.txt', Buffer.from('kms'), { encryption: { type: 'kms' } }),
+          /does not support KMS/,
+        );
+      } else {
+        await sdk.writeObject('sse/kms.txt', Buffer.from('kms'), { encryption: { type: 'kms', keyId: 'key-1' } });
+        const kms = await sdk.readObject('sse/kms.txt');
+        assert.equal(await readAll(kms?.stream), 'kms');
+        assert.equal(kms?.info?.encryption, 'kms');
+      }
+      const customer = { type: 'customer', key: Buffer.alloc(32, 1) } as const;
+      if (target.noCustomerKey) {
+        await assert.rejects(
+          sdk.writeObject('sse/customer.txt', Buffer.from('customer'), { encryption: customer }),
+          /customer-provided keys/,
+        );
+        return;
+      }
+      await assert.rejects(
+        sdk.writeObject('sse/short.txt', Buffer.from('short'), {
+          encryption: { type: 'customer', key: Buffer.alloc(16) },
+        }),
+        /32 bytes/,
+      );
+      await sdk.writeObject('sse/customer.txt', Buffer.from('customer'), { encryption: customer });
+      assert.equal(
+        await readAll((await sdk.readObject('sse/customer.txt', { encryption: customer }))?.stream),
+        'customer',
+      );
+      const info = await sdk.headObject('sse/customer.txt', { encryption: customer });
+      assert.equal(info?.size, 8);
+      assert.equal(info?.encryption, 'customer');
+      const missing = await sdk.readObject('sse/customer.txt').catch((ex) => ex);
+      assert.ok(missing instanceof ObjectStorageError && missing.status === 400, `${missing}`);
+      await assert.rejects(
+        sdk.readObject('sse/customer.txt', { encryption: { type: 'customer', key: Buffer.alloc(32, 2) } }),
+        AccessDeniedError,
+      );
+      await sdk.copyObject('sse/customer.txt', 'sse/copied.txt', {
+        sourceEncryption: customer,
+        encryption: { type: 'provider' },
+      });
+      assert.equal(await readAll((await sdk.readObject('sse/copied.txt'))?.stream), 'customer');
+      await sdk.moveObject('sse/customer.txt', 'sse/moved.txt', { sourceEncryption: customer, encryption: customer });
+      assert.equal(
+        await readAll((await sdk.readObject('sse/moved.txt', { encryption: customer }))?.stream),
+        'customer',
+      );
+      await sdk.uploadLarge('sse/large.bin', Readable.from([Buffer.from('0123456789')]), {
+        partSize: 6,
+        encryption: customer,
+      });
+      const large = await sdk.readObject('sse/large.bin', { encryption: customer, range: { start: 4, end: 7 } });
+      assert.equal(await readAll(large?.stream), '4567');
+    },
+  },
+  {
+    name: 'client-side encryption',
+    async run(sdk) {
+      const encrypted = new EncryptedObjectStorage(sdk, {
+        keyProvider: new LocalKeyWrappingProvider(Buffer.alloc(32, 7)),
+      });
+      const plain = 'secret payload '.repeat(10);
+      const hash = await encrypted.writeObject('cse/a.txt', Buffer.from(plain), {
+        calcHash: 'sha256',
+        metadata: { owner: 'ops' },
+      });
+      assert.equal(hash, sha256(plain));
+      const raw = await sdk.readObject('cse/a.txt');
+      const chunks: Buffer[] = [];
+      for await (const chunk of raw?.stream ?? []) chunks.push(chunk);
+      const ciphertext = Buffer.concat(chunks);
+      assert.equal(ciphertext.length, plain.length + 16);
+      assert.ok(!ciphertext.includes('secret'));
+      const info = await encrypted.headObject('cse/a.txt');
+      assert.equal(info?.size, plain.length);
+      assert.deepEqual(info?.metadata, { owner: 'ops' });
+      const result = await encrypted.readObject('cse/a.txt');
+      assert.equal(await readAll(result?.stream), plain);
+      assert.deepEqual(result?.metadata, { owner: 'ops' });
+      const part = await encrypted.readObject('cse/a.txt', { range: { start: 20, end: 40 } });
+      assert.equal(await readAll(part?.stream), plain.slice(20, 41));
+      assert.equal(part?.contentRange, `bytes 20-40/${plain.length}`);
+      const tail = await encrypted.readObject('cse/a.txt', { range: { start: 140 } });
+      assert.equal(await readAll(tail?.stream), plain.slice(140));
+      // limit 和 calcHash 针对明文
+      const streamHash = await encrypted.writeObject(
+        'cse/stream.txt',
+        Readable.from([Buffer.from('abc'), Buffer.from('def')]),
+        { calcHash: 'sha256', limit: 6 },
+      );
+      assert.equal(streamHash, sha256('abcdef'));
+      await assert.rejects(
+        encrypted.writeObject('cse/stream.txt', Readable.from([Buffer.from('abc'), Buffer.from('defg')]), { limit: 6 }),
+        isTooLargeErr,
+      );
+      await assert.rejects(
+        encrypted.writeObject('cse/stream.txt', Buffer.from('abcdefg'), { limit: 6 }),
+        isTooLargeErr,
+      );
+      assert.equal(await readAll((await encrypted.readObject('cse/stream.txt'))?.stream), 'abcdef');
+      await encrypted.uploadLarge('cse/large.bin', Readable.from([Buffer.from('0123456789')]), { partSize: 6 });
+      assert.equal(await readAll((await encrypted.readObject('cse/large.bin'))?.stream), '0123456789');
+      await encrypted.copyObject('cse/a.txt', 'cse/b.txt', {
+        metadataDirective: 'REPLACE',
+        metadata: { owner: 'dev' },
+      });
+      const copied = await encrypted.readObject('cse/b.txt');
+      assert.equal(await readAll(copied?.stream), plain);
+      assert.deepEqual(copied?.metadata, { owner: 'dev' });
+      // 篡改密文后认证失败
+      ciphertext[0] ^= 1;
+      await sdk.writeObject('cse/a.txt', ciphertext, { metadata: raw?.metadata });
+      await assert.rejects(async () => readAll((await encrypted.readObject('cse/a.txt'))?.stream), DecryptionError);
+      const wrongKey = new EncryptedObjectStorage(sdk, {
+        keyProvider: new LocalKeyWrappingProvider(Buffer.alloc(32, 8)),
+      });
+      await assert.rejects(wrongKey.readObject('cse/b.txt'), DecryptionError);
+      await sdk.writeObject('cse/plain.txt', Buffer.from('plain'));
+      await assert.rejects(encrypted.readObject('cse/plain.txt'), DecryptionError);
+      // 先压缩再加密
+      await encrypted.writeObject('cse/zipped.txt', Buffer.from(plain), { compress: true });
+      assert.ok(((await sdk.headObject('cse/zipped.txt'))?.size ?? 0) < plain.length);
+      assert.equal(await readAll((await encrypted.readObject('cse/zipped.txt', { decompress: true }))?.stream), plain);
+    },
+  },
+  {
+    name: 'transparent compression',
+    async run(sdk) {
+      const json = JSON.stringify({ items: Array.from({ length: 200 }, (_, i) => ({ id: i, name: 'item' })) });
+      const hash = await sdk.writeObject('zip/a.json', Buffer.from(json), {
+        compress: true,
+        contentType: 'application/json',
+        calcHash: 'sha256',
+      });
+      assert.equal(hash, sha256(json));
+      const info = await sdk.headObject('zip/a.json');
+      assert.equal(info?.contentEncoding, 'gzip');
+      assert.ok((info?.size ?? 0) < json.length, `${info?.size}`);
+      const raw = await sdk.readObject('zip/a.json');
+      assert.equal(gunzipSync(await readBuffer(raw?.stream)).toString(), json);
+      const decoded = await sdk.readObject('zip/a.json', { decompress: true });
+      assert.equal(decoded?.headers?.['Content-Encoding'], undefined);
+      assert.equal(await readAll(decoded?.stream), json);
+      await assert.rejects(sdk.readObject('zip/a.json', { decompress: true, range: { start: 0 } }), /range/);
+
+      for (const contentEncoding of ['deflate', 'br'] as const) {
+        const key = `zip/${contentEncoding}.json`;
+        await sdk.writeObject(key, () => Readable.from([json.slice(0, 100), json.slice(100)]), {
+          compress: { level: 5 },
+          contentEncoding,
+        });
+        assert.equal((await sdk.headObject(key))?.contentEncoding, contentEncoding);
+        assert.equal(await readAll((await sdk.readObject(key, { decompress: true }))?.stream), json);
+      }
+
+      await assert.rejects(
+        sdk.writeObject('zip/big.json', Buffer.from(json), { compress: true, limit: 100 }),
+        isTooLargeErr,
+      );
+      await assert.rejects(
+        sdk.writeObject('zip/big.json', Readable.from([json]), { compress: true, limit: 100 }),
+        isTooLargeErr,
+      );
+      await sdk.writeObject('zip/small.json', Buffer.from(json), {
+        compress: { limitOn: 'compressed' },
+        limit: json.length / 2,
+      });
+      await sdk.uploadLarge('zip/large.json', Readable.from([json]), { partSize: 1024 * 1024, compress: true });
+      assert.equal(await readAll((await sdk.readObject('zip/large.json', { decompress: true }))?.stream), json);
+      await sdk.writeObject('zip/plain.txt', Buffer.from('plain'));
+      assert.equal(await readAll((await sdk.readObject('zip/plain.txt', { decompress: true }))?.stream), 'plain');
+    },
+  },
+  {
+    name: 'uploadLarge',
+    async run(sdk) {
+      const data = Buffer.from('0123456789abcdefghij');
+      const hash = await sdk.uploadLarge('large.bin', Readable.from([data.subarray(0, 7), data.subarray(7)]), {
+        partSize: 6,
+        concurrency: 2,
+        calcHash: 'sha256',
+      });
+      assert.equal(hash, sha256(data.toString()));
+      await assert.rejects(
+        sdk.uploadLarge('large.bin', Readable.from([data.subarray(0, 7), data.subarray(7)]), {
+          partSize: 6,
+          limit: 10,
+        }),
+        isTooLargeErr,
+      );
+      assert.equal(await readAll((await sdk.readObject('large.bin'))?.stream), data.toString());
+    },
+  },
+  {
+    name: 'wrong secret key maps to AccessDeniedError',
+    emulatorOnly: true,
+    async run(_sdk, target) {
+      const sdk = target.create({ secretKey: 'wrong' });
+      const err = await sdk.headObject('any').catch((ex) => ex);
+      assert.ok(err instanceof AccessDeniedError, `${err}`);
+      const readErr = await sdk.readObject('any').catch((ex) => ex);
+      assert.ok(readErr instanceof AccessDeniedError, `${readErr}`);
+      assert.equal(readErr.code, 'SignatureDoesNotMatch');
+      assert.equal(readErr.status, 403);
+      assert.ok(readErr.requestId);
+    },
+  },
+  {
+    name: 'throttling is retried and then surfaced as ThrottledError',
+    emulatorOnly: true,
+    async run(_sdk, target) {
+      const sdk = target.create({ maxAttempts: 2 });
+      await sdk.writeObject('retry.txt', Buffer.from('retry'));
+      emulator.injectError(503, 'SlowDown', { retryAfter: 0 });
+      assert.equal(await readAll((await sdk.readObject('retry.txt'))?.stream), 'retry');
+      emulator.injectError(503, 'SlowDown', { times: 2, retryAfter: 0 });
+      // HEAD 的响应没有 body，取不到错误码，因此使用 GET
+      const err = await sdk.readObject('retry.txt').catch((ex) => ex);
+      assert.ok(err instanceof ThrottledError, `${err}`);
+      // 不可重放的 stream 请求体不会重试
+      emulator.injectError(500, 'InternalError');
+      await assert.rejects(sdk.writeObject('retry.txt', Readable.from([Buffer.from('x')])));
+    },
+  },
+  {
+    name: 'presigned GET url',
+    emulatorOnly: true,
+    async run(sdk) {
+      await sdk.writeObject('signed/a b.txt', Buffer.from('signed'));
+      const url = await sdk.getSignedUrl('signed/a b.txt', {
+        responseHeaders: { 'Content-Disposition': 'attachment' },
+      });
+      assert.deepEqual(await httpGet(url), { status: 200, body: 'signed' });
+      const tampered = url.replace('attachment', 'inline');
+      assert.equal((await httpGet(tampered)).status, 403);
+      // 参数名互为前缀时按参数名排序：response-cache-control 在 response-cache-control-x 之前
+      const prefixed = await sdk.getSignedUrl('signed/a b.txt', {
+        responseHeaders: { 'Cache-Control': 'no-cache', 'Cache-Control-X': 'x' },
+      });
+      assert.deepEqual(await httpGet(prefixed), { status: 200, body: 'signed' });
+    },
+  },
+  {
+    name: 'credential provider survives key rotation',
+    emulatorOnly: true,
+    async run(_sdk, target) {
+      const rotate = (generation: number): Credentials => {
+        const credentials = {
+          accessKey: `${ACCESS_KEY}-${generation}`,
+          secretKey: `${SECRET_KEY}-${generation}`,
+          securityToken: `${SECURITY_TOKEN}-${generation}`,
+        };
+        emulator.setCredentials(credentials);
+        return credentials;
+      };
+      let current = rotate(1);
+      let loads = 0;
+      const provider = new CallbackCredentialProvider(
+        async () => {
+          loads++;
+          return { ...current, expiration: new Date(Date.now() + 50) };
+        },
+        { refreshBefore: 0 },
+      );
+      const sdk = target.create({ credentials: provider, maxAttempts: 1 });
+      await sdk.writeObject('rotate.txt', Buffer.from('first'));
+      assert.equal(await readAll((await sdk.readObject('rotate.txt'))?.stream), 'first');
+      assert.equal(loads, 1, 'credentials should be cached until they expire');
+
+      current = rotate(2);
+      emulator.requests.length = 0;
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      await sdk.writeObject('rotate.txt', Buffer.from('second'));
+      assert.equal(await readAll((await sdk.readObject('rotate.txt'))?.stream), 'second');
+      assert.deepEqual(await httpGet(await sdk.getSignedUrl('rotate.txt')), { status: 200, body: 'second' });
+      assert.ok(loads >= 2);
+      for (const req of emulator.requests) {
+        const values = [...Object.values(req.headers), ...Object.values(req.query)];
+        assert.ok(values.includes(current.securityToken), `${req.method} ${req.key} should carry the security token`);
+      }
+    },
+  },
+  {
+    name: 'injected faults throw the error singletons',
+    memoryOnly: true,
+    async run(sdk) {
+      const memory = sdk as MemoryObjectStorageSDK;
+      const body = () => Readable.from([Buffer.from('12'), Buffer.from('345')]);
+      memory.injectFault({ kind: 'abort', operation: 'writeObject', afterBytes: 2 });
+      await assert.rejects(sdk.writeObject('fault.txt', body()), (err) => err === ABORTED_ERR);
+      memory.injectFault({ kind: 'too_large', operation: 'writeObject' });
+      await assert.rejects(sdk.writeObject('fault.txt', body()), isTooLargeErr);
+      await sdk.writeObject('fault.txt', body());
+      memory.injectFault({ kind: 'abort', operation: 'readObject', afterBytes: 2 });
+      const result = await sdk.readObject('fault.txt');
+      await assert.rejects(readAll(result?.stream), (err) => err === ABORTED_ERR);
+    },
+  },
+  {
+    name: 'client-side encryption retries with a fresh data key',
+    memoryOnly: true,
+    async run(sdk) {
+      const memory = sdk as MemoryObjectStorageSDK;
+      const local = new LocalKeyWrappingProvider(Buffer.alloc(32, 7));
+      const wrapped: string[] = [];
+      const encrypted = new EncryptedObjectStorage(sdk, {
+        keyProvider: {
+          async wrapKey(dataKey) {
+            const result = await local.wrapKey(dataKey);
+            wrapped.push(result.wrappedKey.toString('base64'));
+            return result;
+          },
+          unwrapKey: (wrappedKey, keyId) => local.unwrapKey(wrappedKey, keyId),
+        },
+        retry: { baseDelay: 1 },
+      });
+      memory.injectFault({ kind: 'error', operation: 'writeObject' });
+      const hash = await encrypted.writeObject('cse/retry.txt', () => Readable.from([Buffer.from('retried')]), {
+        calcHash: 'sha256',
+      });
+      assert.equal(hash, sha256('retried'));
+      // 每次尝试生成新的数据密钥，保存的是成功那次的密钥
+      assert.equal(wrapped.length, 2);
+      assert.equal((await sdk.headObject('cse/retry.txt'))?.metadata['cse-key'], wrapped[1]);
+      assert.equal(await readAll((await encrypted.readObject('cse/retry.txt'))?.stream), 'retried');
+    },
+  },
+  {
+    name: 'failed writes keep the previous data and metadata',
+    fsOnly: true,
+    async run(sdk) {
+      const metaDir = path.join(tmp, 'fs', '.meta', 'fs-bucket', 'atomic');
+      // 元数据写入失败时不替换数据
+      await sdk.writeObject('atomic/meta.txt', Buffer.from('old'));
+      rmSync(path.join(metaDir, 'meta.txt.json'));
+      mkdirSync(path.join(metaDir, 'meta.txt.json'));
+      await assert.rejects(sdk.writeObject('atomic/meta.txt', Buffer.from('new')));
+      assert.equal(await readAll((await sdk.readObject('atomic/meta.txt'))?.stream), 'old');
+      rmSync(path.join(metaDir, 'meta.txt.json'), { recursive: true });
+      // 数据文件 rename 失败时恢复原来的元数据
+      await sdk.writeObject('atomic/dir/child', Buffer.from('child'));
+      const previous = JSON.stringify({ etag: 'old', metadata: { v: 'old' } });
+      writeFileSync(path.join(metaDir, 'dir.json'), previous);
+      await assert.rejects(sdk.writeObject('atomic/dir', Buffer.from('new'), { metadata: { v: 'new' } }));
+      assert.equal(readFileSync(path.join(metaDir, 'dir.json'), 'utf8'), previous);
+    },
+  },
+];
+
+function getTargets(): Target[] {
+  const http = (o: TargetOptions) => ({
+    accessKey: ACCESS_KEY,
+    secretKey: o.secretKey ?? SECRET_KEY,
+    credentials: o.credentials,
+    endpoint: '127.0.0.1',
+    port: emulator.port,
+    pathStyle: true,
+    retry: { maxAttempts: o.maxAttempts ?? 3, baseDelay: 1 },
+  });
+  const targets: Target[] = [
+    {
+      name: 'aliyun',
+      metaPrefix: 'x-oss-meta-',
+      emulator: true,
+      noCustomerKey: true,
+      create: (o = {}) => new AliyunObjectStorageSDK({ ...http(o), bucket: 'oss-bucket', region: 'oss-cn' }),
+    },
+    {
+      name: 'aliyun (sts)',
+      metaPrefix: 'x-oss-meta-',
+      emulator: true,
+      noCustomerKey: true,
+      create: (o = {}) =>
+        new AliyunObjectStorageSDK({
+          ...http(o),
+          bucket: 'oss-bucket',
+          region: 'oss-cn',
+          securityToken: SECURITY_TOKEN,
+        }),
+    },
+    {
+      name: 'aliyun (v4, sts)',
+      metaPrefix: 'x-oss-meta-',
+      emulator: true,
+      noCustomerKey: true,
+      create: (o = {}) =>
+        new AliyunObjectStorageSDK({
+          ...http(o),
+          bucket: 'oss-bucket',
+          region: 'oss-cn-hangzhou',
+          signatureVersion: 'v4',
+          securityToken: SECURITY_TOKEN,
+        }),
+    },
+    {
+      name: 'txyun',
+      metaPrefix: 'x-cos-meta-',
+      emulator: true,
+      create: (o = {}) =>
+        new TxyunObjectStorageSDK({
+          ...http(o),
+          bucket: 'cos-bucket',
+          region: 'ap-guangzhou',
+          appId: '1250000000',
+        }),
+    },
+    {
+      name: 'txyun (url)',
+      metaPrefix: 'x-cos-meta-',
+      emulator: true,
+      create: (o = {}) =>
+        createObjectStorage(
+          Object.assign(
+            parseObjectStorageUrl(
+              `cos://${ACCESS_KEY}:${o.secretKey ?? SECRET_KEY}@cos-bucket-1250000000.ap-guangzhou` +
+                `?endpoint=127.0.0.1&port=${emulator.port}&pathStyle=true&securityToken=${SECURITY_TOKEN}`,
+            ),
+            { credentials: o.credentials, retry: { maxAttempts: o.maxAttempts ?? 3, baseDelay: 1 } },
+          ),
+        ),
+    },
+    {
+      name: 'ksyun',
+      metaPrefix: 'x-kss-meta-',
+      emulator: true,
+      noKms: true,
+      create: (o = {}) =>
+        new KsyunObjectStorageSDK({
+          ...http(o),
+          bucket: 'ks3-bucket',
+          region: 'GUANGZHOU',
+          internal: false,
+        }),
+    },
+    {
+      name: 's3',
+      metaPrefix: 'x-amz-meta-',
+      emulator: true,
+      create: (o = {}) => new S3ObjectStorageSDK({ ...http(o), bucket: 's3-bucket', region: 'us-east-1' }),
+    },
+    {
+      name: 's3 (streaming)',
+      metaPrefix: 'x-amz-meta-',
+      emulator: true,
+      create: (o = {}) =>
+        new S3ObjectStorageSDK({
+          ...http(o),
+          bucket: 's3-bucket',
+          region: 'us-east-1',
+          payloadSigning: 'streaming',
+        }),
+    },
+    {
+      name: 'fs',
+      metaPrefix: 'x-oss-meta-',
+      fs: true,
+      create: () => new FsObjectStorageSDK({ root: path.join(tmp, 'fs'), bucket: 'fs-bucket' }),
+    },
+    {
+      name: 'memory',
+      metaPrefix: 'x-oss-meta-',
+      memory: true,
+      create: () => new MemoryObjectStorageSDK(),
+    },
+  ];
+  targets.push({
+    name: 'minio (emulator)',
+    metaPrefix: 'x-amz-meta-',
+    noArchive: true,
+    noCustomerKey: true,
+    onlySlashDelimiter: true,
+    create: () =>
+      new MinioObjectStorageSDK({
+        accessKey: ACCESS_KEY,
+        secretKey: SECRET_KEY,
+        endPoint: '127.0.0.1',
+        port: emulator.port,
+        useSSL: false,
+        bucket: 'minio-bucket',
+        region: 'us-east-1',
+      }),
+  });
+  if (process.env.MINIO_ENDPOINT) {
+    targets.push({
+      name: 'minio',
+      metaPrefix: 'x-amz-meta-',
+      noArchive: true,
+      noCustomerKey: true,
+      onlySlashDelimiter: true,
+      create: () =>
+        new MinioObjectStorageSDK({
+          accessKey: process.env.MINIO_ACCESS_KEY ?? 'minioadmin',
+          secretKey: process.env.MINIO_SECRET_KEY ?? 'minioadmin',
+          endPoint: process.env.MINIO_ENDPOINT ?? '',
+          port: Number(process.env.MINIO_PORT ?? 9000),
+          useSSL: false,
+          bucket: `conformance-${Date.now()}`,
+          region: 'us-east-1',
+        }),
+    });
+  }
+  return targets;
+}
+
+async function main(): Promise<void> {
+  const filter = process.argv[2] ?? '';
+  tmp = mkdtempSync(path.join(tmpdir(), 'conformance-'));
+  emulator = await startEmulator({ accessKey: ACCESS_KEY, secretKey: SECRET_KEY, securityToken: SECURITY_TOKEN });
+  let passed = 0;
+  const failures: string[] = [];
+  try {
+    for (const target of getTargets()) {
+      for (const c of cases) {
+        if (c.emulatorOnly && !target.emulator) continue;
+        if (c.memoryOnly && !target.memory) continue;
+        if (c.fsOnly && !target.fs) continue;
+        const name = `${target.name} › ${c.name}`;
+        if (!name.includes(filter)) continue;
+        emulator.reset();
+        try {
+          await c.run(target.create(), target);
+          passed++;
+          console.log(`  ✓ ${name}`);
+        } catch (ex) {
+          failures.push(name);
+          console.log(`  ✗ ${name}\n    ${ex instanceof Error ? ex.stack : ex}`);
+        }
+      }
+    }
+  } finally {
+    await emulator.close();
+    rmSync(tmp, { recursive: true, force: true });
+  }
+  console.log(`\n${passed} passed, ${failures.length} failed`);
+  if (failures.length) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((ex) => {
+  console.error(ex);
+  process.exitCode = 1;
+});
@@ -0,0 +1,1043 @@
+/**
+ * 本地模拟 OSS、COS、KS3 和 S3 REST 接口的 http 服务，用于在没有云厂商账号的情况下测试 SDK。
+ *
+ * - 只支持 path-style 访问，即 `http://127.0.0.1:port/bucket/key`，SDK 需要配置 `pathStyle: true`。
+ * - 根据 Authorization 或 url 中的签名参数判断协议，签名按照各云厂商的文档独立实现，不复用 SDK 的代码。
+ * - 错误以云厂商格式的 XML 返回，例如 `<Error><Code>NoSuchKey</Code>...</Error>`。
+ *
+ * 单独运行：`pnpm emulator`，端口和密钥通过环境变量 PORT、ACCESS_KEY、SECRET_KEY 指定。
+ */
+import crypto from 'crypto';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { Builder, parseStringPromise } from 'xml2js';
+
+export type EmulatorOptions = {
+  accessKey: string;
+  secretKey: string;
+  /** 默认为 0，即随机端口 */
+  port?: number;
+  /** STS 临时凭证的 SecurityToken。请求中带有 token 时必须与之相同 */
+  securityToken?: string;
+};
+
+/** 协议名称，同时也是厂商自定义头的前缀，例如 x-oss-、x-amz- */
+type DialectName = 'oss' | 'cos' | 'kss' | 'amz';
+
+/** 一次请求的记录，用于检查 SDK 实际发出的请求 */
+export type EmulatorRequest = {
+  dialect?: DialectName;
+  method: string;
+  bucket: string;
+  key: string;
+  query: Record<string, string>;
+  headers: IncomingMessage['headers'];
+};
+
+type StoredObject = {
+  data: Buffer;
+  etag: string;
+  lastModified: Date;
+  /** content-type、content-encoding 和用户元数据，key 为小写，用户元数据不含厂商前缀 */
+  contentType?: string;
+  contentEncoding?: string;
+  metadata: Record<string, string>;
+  tags: Record<string, string>;
+  /** 厂商的存储类型名称，不指定时为标准存储 */
+  storageClass?: string;
+  /** 归档对象解冻的副本的过期时间 */
+  restoreExpiresAt?: Date;
+  /** 写入时的服务端加密请求头（不含 SSE-C 的密钥），读取时原样返回 */
+  encryptionHeaders?: Record<string, string>;
+  /** SSE-C 密钥的 MD5，读取时需要提供同样的密钥 */
+  customerKeyMd5?: string;
+};
+
+type Upload = {
+  bucket: string;
+  key: string;
+  contentType?: string;
+  contentEncoding?: string;
+  metadata: Record<string, string>;
+  tags: Record<string, string>;
+  storageClass?: string;
+  encryptionHeaders?: Record<string, string>;
+  customerKeyMd5?: string;
+  parts: Map<number, { data: Buffer; etag: string }>;
+};
+
+/** 各厂商需要解冻才能读取的存储类型，转为大写后比较 */
+const ARCHIVE_CLASSES = new Set(['ARCHIVE', 'COLDARCHIVE', 'DEEPCOLDARCHIVE', 'GLACIER', 'DEEP_ARCHIVE']);
+
+function needsRestore(obj: StoredObject): boolean {
+  if (!obj.storageClass || !ARCHIVE_CLASSES.has(obj.storageClass.toUpperCase())) return false;
+  return !obj.restoreExpiresAt || obj.restoreExpiresAt.getTime() <= Date.now();
+}
+
+/**
+ * 读取并校验 SSE-C 的请求头，返回密钥的 MD5，没有指定密钥时返回 undefined。
+ * @param copySource 是否为复制时源对象的密钥
+ */
+function getCustomerKeyMd5(prefix: string, req: IncomingMessage, copySource = false): string | undefined {
+  const name = `${prefix}${copySource ? 'copy-source-' : ''}server-side-encryption-customer-`;
+  const key = Buffer.from(headerValue(req.headers, `${name}key`), 'base64');
+  if (!key.length) return undefined;
+  const keyMd5 = crypto.createHash('md5').update(key).digest('base64');
+  if (
+    key.length !== 32 ||
+    headerValue(req.headers, `${name}algorithm`) !== 'AES256' ||
+    headerValue(req.headers, `${name}key-md5`) !== keyMd5
+  ) {
+    throw new EmulatorError(400, 'InvalidArgument', 'The customer-provided encryption key is invalid.');
+  }
+  return keyMd5;
+}
+
+/**
+ * 使用 SSE-C 写入的对象读取时必须提供同样的密钥，其他对象不能提供密钥。
+ */
+function checkCustomerKey(obj: { customerKeyMd5?: string }, keyMd5: string | undefined): void {
+  if (obj.customerKeyMd5 === keyMd5) return;
+  if (obj.customerKeyMd5 && keyMd5) {
+    throw new EmulatorError(403, 'AccessDenied', 'The customer-provided encryption key does not match.');
+  }
+  throw new EmulatorError(400, 'InvalidRequest', 'The encryption parameters are not applicable to this object.');
+}
+
+type InjectedError = { status: number; code: string; retryAfter?: number; times: number };
+
+class EmulatorError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message = code,
+  ) {
+    super(message);
+  }
+}
+
+/** OSS 和 KS3 参与签名的子资源 */
+const V1_SUB_RESOURCES = new Set([
+  'acl',
+  'uploads',
+  'location',
+  'cors',
+  'logging',
+  'website',
+  'referer',
+  'lifecycle',
+  'delete',
+  'append',
+  'tagging',
+  'objectMeta',
+  'uploadId',
+  'partNumber',
+  'security-token',
+  'position',
+  'restore',
+  'symlink',
+  'continuation-token',
+  'notification',
+  'policy',
+  'requestPayment',
+  'torrent',
+  'versionId',
+  'versioning',
+  'versions',
+  'response-content-type',
+  'response-content-language',
+  'response-expires',
+  'response-cache-control',
+  'response-content-disposition',
+  'response-content-encoding',
+]);
+
+const hmac = (alg: string, key: string, data: string, enc: 'hex' | 'base64') =>
+  crypto.createHmac(alg, key).update(data).digest(enc);
+const md5 = (data: Buffer) => crypto.createHash('md5').update(data).digest('hex');
+const sha256 = (data: Buffer | string) => crypto.createHash('sha256').update(data).digest('hex');
+
+function cosEncode(str: string): string {
+  return encodeURIComponent(str).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function headerValue(headers: IncomingMessage['headers'], name: string): string {
+  const v = headers[name];
+  return Array.isArray(v) ? v.join(',') : v ?? '';
+}
+
+/**
+ * OSS 和 KS3 的 V1 签名：https://help.aliyun.com/document_detail/31951.html
+ */
+function signV1(
+  secretKey: string,
+  prefix: string,
+  req: IncomingMessage,
+  date: string,
+  resource: string,
+  query: Record<string, string>,
+): string {
+  const canonicalHeaders = Object.keys(req.headers)
+    .filter((k) => k.startsWith(prefix))
+    .sort()
+    .map((k) => `${k}:${headerValue(req.headers, k)}\n`)
+    .join('');
+  const subResources = Object.keys(query)
+    .filter((k) => V1_SUB_RESOURCES.has(k))
+    .sort()
+    .map((k) => (query[k] === '' ? k : `${k}=${query[k]}`))
+    .join('&');
+  const stringToSign = [
+    req.method,
+    headerValue(req.headers, 'content-md5'),
+    headerValue(req.headers, 'content-type'),
+    date,
+    `${canonicalHeaders}${resource}${subResources ? `?${subResources}` : ''}`,
+  ].join('\n');
+  return hmac('sha1', secretKey, stringToSign, 'base64');
+}
+
+/**
+ * COS 的签名：https://cloud.tencent.com/document/product/436/7778
+ */
+function signCos(
+  secretKey: string,
+  req: IncomingMessage,
+  path: string,
+  query: Record<string, string>,
+  auth: Record<string, string>,
+): string {
+  const pairs = (names: string, get: (name: string) => string) =>
+    (names ? names.split(';') : [])
+      .map((name) => [cosEncode(name.toLowerCase()), cosEncode(get(name))])
+      .sort((a, b) => (a[0] < b[0] ? -1 : 1))
+      .map(([k, v]) => `${k}=${v}`)
+      .join('&');
+  const httpString = [
+    (req.method ?? '').toLowerCase(),
+    path,
+    // q-url-param-list 中的参数名都是小写的
+    pairs(auth['q-url-param-list'], (name) => {
+      const found = Object.keys(query).find((k) => k.toLowerCase() === name.toLowerCase());
+      return found === undefined ? '' : query[found];
+    }),
+    pairs(auth['q-header-list'], (name) => headerValue(req.headers, name)),
+    '',
+  ].join('\n');
+  const signKey = hmac('sha1', secretKey, auth['q-key-time'], 'hex');
+  const sha1 = crypto.createHash('sha1').update(httpString).digest('hex');
+  return hmac('sha1', signKey, `sha1\n${auth['q-sign-time']}\n${sha1}\n`, 'hex');
+}
+
+/**
+ * AWS V4 签名：https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-authenticating-requests.html
+ * @param scope 例如 `20130524/us-east-1/s3/aws4_request`
+ */
+function signV4(
+  secretKey: string,
+  req: IncomingMessage,
+  path: string,
+  query: Record<string, string>,
+  signedHeaders: string,
+  payloadHash: string,
+  amzDate: string,
+  scope: string,
+): string {
+  const canonicalRequest = [
+    req.method,
+    path.split('/').map(cosEncode).join('/'),
+    Object.keys(query)
+      .filter((k) => k !== 'X-Amz-Signature')
+      .map((k) => [cosEncode(k), cosEncode(query[k])])
+      .sort((a, b) => (a[0] < b[0] ? -1 : 1))
+      .map(([k, v]) => `${k}=${v}`)
+      .join('&'),
+    signedHeaders
+      .split(';')
+      .map((k) => `${k}:${headerValue(req.headers, k).trim().replace(/\s+/g, ' ')}\n`)
+      .join(''),
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+  return signV4String(
+    `AWS4${secretKey}`,
+    scope,
+    ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n'),
+  );
+}
+
+/**
+ * 使用 scope 逐级派生签名密钥后签名，AWS 的 secret 前缀为 AWS4，OSS 为 aliyun_v4。
+ */
+function signV4String(secret: string, scope: string, stringToSign: string): string {
+  const signingKey = scope
+    .split('/')
+    .reduce<Buffer | string>((key, part) => crypto.createHmac('sha256', key).update(part).digest(), secret);
+  return crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+}
+
+/**
+ * OSS 的 V4 签名：https://help.aliyun.com/zh/oss/developer-reference/recommend-to-use-signature-version-4
+ */
+function signOssV4(
+  secretKey: string,
+  req: IncomingMessage,
+  resource: string,
+  query: Record<string, string>,
+  additionalHeaders: string,
+  payloadHash: string,
+  ossDate: string,
+  scope: string,
+): string {
+  const additional = additionalHeaders ? additionalHeaders.split(';') : [];
+  const canonicalRequest = [
+    req.method,
+    resource.split('/').map(cosEncode).join('/'),
+    Object.keys(query)
+      .filter((k) => k !== 'x-oss-signature')
+      .map((k) => [cosEncode(k), cosEncode(query[k])])
+      .sort((a, b) => (a[0] < b[0] ? -1 : 1))
+      .map(([k, v]) => (v ? `${k}=${v}` : k))
+      .join('&'),
+    Object.keys(req.headers)
+      .filter((k) => k.startsWith('x-oss-') || k === 'content-type' || k === 'content-md5' || additional.includes(k))
+      .sort()
+      .map((k) => `${k}:${headerValue(req.headers, k).trim()}\n`)
+      .join(''),
+    additionalHeaders,
+    payloadHash,
+  ].join('\n');
+  return signV4String(
+    `aliyun_v4${secretKey}`,
+    scope,
+    ['OSS4-HMAC-SHA256', ossDate, scope, sha256(canonicalRequest)].join('\n'),
+  );
+}
+
+/**
+ * 解析 V4 签名的时间，例如 20130524T000000Z，返回秒数。
+ */
+function parseV4Date(date: string | undefined): number | undefined {
+  const m = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(date ?? '');
+  return m ? Date.UTC(+m[1], +m[2] - 1, +m[3], +m[4], +m[5], +m[6]) / 1000 : undefined;
+}
+
+/**
+ * 解码 aws-chunked 请求体并校验每个分块的签名：
+ * https://docs.aws.amazon.com/AmazonS3/latest/API/sigv4-streaming.html
+ */
+function decodeChunked(secretKey: string, body: Buffer, seed: string, amzDate: string, scope: string): Buffer {
+  const chunks: Buffer[] = [];
+  let previous = seed;
+  let offset = 0;
+  for (;;) {
+    const lineEnd = body.indexOf('\r\n', offset);
+    const m = /^([0-9a-f]+);chunk-signature=([0-9a-f]{64})$/.exec(body.subarray(offset, lineEnd).toString());
+    if (lineEnd < 0 || !m) throw new EmulatorError(400, 'IncompleteBody');
+    const size = parseInt(m[1], 16);
+    const data = body.subarray(lineEnd + 2, lineEnd + 2 + size);
+    const stringToSign = ['AWS4-HMAC-SHA256-PAYLOAD', amzDate, scope, previous, sha256(''), sha256(data)].join('\n');
+    previous = signV4String(`AWS4${secretKey}`, scope, stringToSign);
+    if (previous !== m[2]) throw new EmulatorError(403, 'SignatureDoesNotMatch', 'chunk signature mismatch');
+    if (size === 0) return Buffer.concat(chunks);
+    chunks.push(data);
+    offset = lineEnd + 2 + size + 2;
+  }
+}
+
+/**
+ * 根据签名方式判断请求使用的协议，无法判断时按 OSS 处理。
+ */
+function detectDialect(authorization: string, query: Record<string, string>): DialectName {
+  if (authorization.startsWith('KSS ') || query.KSSAccessKeyId) return 'kss';
+  if (authorization.startsWith('q-sign-algorithm=') || query['q-sign-algorithm']) return 'cos';
+  if (authorization.startsWith('AWS4-HMAC-SHA256 ') || query['X-Amz-Algorithm']) return 'amz';
+  // OSS 的 V1 和 V4 签名都按 OSS 处理
+  return 'oss';
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * 按 S3 的规则列举 key，返回的 token 为本页最后一个 key 或 commonPrefix。
+ */
+function listKeys(keys: string[], prefix: string, delimiter: string, marker: string, maxKeys: number) {
+  const contents: string[] = [];
+  const commonPrefixes: string[] = [];
+  let last = '';
+  for (const key of keys.filter((k) => k.startsWith(prefix) && k > marker).sort()) {
+    const idx = delimiter ? key.indexOf(delimiter, prefix.length) : -1;
+    const commonPrefix = idx >= 0 ? key.slice(0, idx + delimiter.length) : '';
+    if (commonPrefix && (commonPrefix === last || commonPrefix === marker)) continue;
+    if (contents.length + commonPrefixes.length >= maxKeys) {
+      return { contents, commonPrefixes, isTruncated: true, next: last };
+    }
+    if (commonPrefix) {
+      commonPrefixes.push(commonPrefix);
+      last = commonPrefix;
+    } else {
+      contents.push(key);
+      last = key;
+    }
+  }
+  return { contents, commonPrefixes, isTruncated: false, next: '' };
+}
+
+export class Emulator {
+  /** 所有收到的请求，按顺序记录 */
+  readonly requests: EmulatorRequest[] = [];
+  private _options: EmulatorOptions;
+  /** 当前有效的凭证，可以通过 setCredentials 轮换 */
+  private _credentials: Pick<EmulatorOptions, 'accessKey' | 'secretKey' | 'securityToken'>;
+  private _server: Server;
+  private _buckets = new Map<string, Map<string, StoredObject>>();
+  private _uploads = new Map<string, Upload>();
+  private _injected: InjectedError[] = [];
+  private _xml = new Builder({ renderOpts: { pretty: false } });
+
+  constructor(options: EmulatorOptions) {
+    this._options = options;
+    this._credentials = { ...options };
+    this._server = createServer((req, res) => {
+      this._handle(req, res).catch((ex) => {
+        res.statusCode = 500;
+        res.end(String(ex));
+      });
+    });
+  }
+
+  get port(): number {
+    return (this._server.address() as AddressInfo).port;
+  }
+
+  listen(): Promise<this> {
+    return new Promise((resolve) => {
+      this._server.listen(this._options.port ?? 0, '127.0.0.1', () => resolve(this));
+    });
+  }
+  close(): Promise<void> {
+    this._server.closeAllConnections();
+    return new Promise((resolve) => this._server.close(() => resolve()));
+  }
+  /**
+   * 让之后的 times 个请求返回指定的错误，用于测试重试和错误映射。
+   * @param retryAfter Retry-After 响应头，以秒计数
+   */
+  injectError(status: number, code: string, options: { times?: number; retryAfter?: number } = {}): void {
+    this._injected.push({ status, code, retryAfter: options.retryAfter, times: options.times ?? 1 });
+  }
+  /**
+   * 轮换凭证，之后使用旧凭证签名的请求都会失败。
+   */
+  setCredentials(credentials: { accessKey: string; secretKey: string; securityToken?: string }): void {
+    this._credentials = { ...credentials };
+  }
+  /**
+   * 清空数据、请求记录和注入的错误，并恢复初始的凭证。
+   */
+  reset(): void {
+    const { accessKey, secretKey, securityToken } = this._options;
+    this._credentials = { accessKey, secretKey, securityToken };
+    this._buckets.clear();
+    this._uploads.clear();
+    this._injected = [];
+    this.requests.length = 0;
+  }
+
+  private _bucket(name: string): Map<string, StoredObject> {
+    let bucket = this._buckets.get(name);
+    if (!bucket) {
+      bucket = new Map();
+      this._buckets.set(name, bucket);
+    }
+    return bucket;
+  }
+
+  private async _handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const segments = url.pathname.split('/').slice(1);
+    const bucket = decodeURIComponent(segments[0] ?? '');
+    const key = segments.slice(1).map(decodeURIComponent).join('/');
+    const query: Record<string, string> = {};
+    url.searchParams.forEach((v, k) => (query[k] = v));
+    const record: EmulatorRequest = { method: req.method ?? '', bucket, key, query, headers: req.headers };
+    this.requests.push(record);
+    const body = await readBody(req);
+    const dialect = detectDialect(headerValue(req.headers, 'authorization'), query);
+    record.dialect = dialect;
+    res.setHeader(`x-${dialect}-request-id`, crypto.randomUUID());
+    try {
+      const payload = this._authenticate(req, decodeURIComponent(url.pathname), bucket, key, query, body);
+      const injected = this._injected[0];
+      if (injected) {
+        if (--injected.times <= 0) this._injected.shift();
+        if (injected.retryAfter !== undefined) res.setHeader('Retry-After', `${injected.retryAfter}`);
+        throw new EmulatorError(injected.status, injected.code, 'injected error');
+      }
+      if (!bucket) throw new EmulatorError(400, 'InvalidBucketName');
+      await (key
+        ? this._handleObject(dialect, req, res, bucket, key, query, payload)
+        : this._handleBucket(dialect, req, res, bucket, query, payload));
+    } catch (ex) {
+      if (!(ex instanceof EmulatorError)) throw ex;
+      res.statusCode = ex.status;
+      if (req.method === 'HEAD') {
+        res.end();
+        return;
+      }
+      this._sendXml(res, {
+        Error: {
+          Code: ex.code,
+          Message: ex.message,
+          RequestId: res.getHeader(`x-${dialect}-request-id`) ?? '',
+          HostId: req.headers.host ?? '',
+        },
+      });
+    }
+  }
+
+  /**
+   * 校验签名，失败时抛出 EmulatorError。返回解码后的请求体（S3 的 aws-chunked 编码）。
+   */
+  private _authenticate(
+    req: IncomingMessage,
+    path: string,
+    bucket: string,
+    key: string,
+    query: Record<string, string>,
+    body: Buffer,
+  ): Buffer {
+    const { accessKey, secretKey } = this._credentials;
+    const now = Date.now() / 1000;
+    const authorization = headerValue(req.headers, 'authorization');
+    const securityToken =
+      (['oss', 'cos', 'kss', 'amz'] as const)
+        .map(
+          (dialect) => headerValue(req.headers, `x-${dialect}-security-token`) || query[`x-${dialect}-security-token`],
+        )
+        .find(Boolean) ??
+      (query['security-token'] || query['X-Amz-Security-Token']);
+    if (securityToken && securityToken !== this._credentials.securityToken) {
+      throw new EmulatorError(403, 'InvalidSecurityToken', 'The security token you provided is invalid.');
+    }
+    const ossV4 =
+      /^OSS4-HMAC-SHA256 Credential=([^/,]+)\/([^,]+), ?(?:AdditionalHeaders=([^,]*), ?)?Signature=([0-9a-f]+)$/.exec(
+        authorization,
+      );
+    if (ossV4 !== null || query['x-oss-signature-version'] === 'OSS4-HMAC-SHA256') {
+      const credential = ossV4 ? `${ossV4[1]}/${ossV4[2]}` : query['x-oss-credential'] ?? '';
+      const [ak, ...scopeParts] = credential.split('/');
+      const scope = scopeParts.join('/');
+      const ossDate = ossV4 ? headerValue(req.headers, 'x-oss-date') : query['x-oss-date'];
+      const time = parseV4Date(ossDate);
+      if (ak !== accessKey) throw new EmulatorError(403, 'InvalidAccessKeyId');
+      if (
+        time === undefined ||
+        !scope.startsWith(`${ossDate.slice(0, 8)}/`) ||
+        !scope.endsWith('/oss/aliyun_v4_request')
+      ) {
+        throw new EmulatorError(400, 'InvalidArgument', 'invalid x-oss-date or credential');
+      }
+      if (ossV4 ? Math.abs(now - time) > 15 * 60 : now > time + Number(query['x-oss-expires'])) {
+        throw new EmulatorError(403, ossV4 ? 'RequestTimeTooSkewed' : 'AccessDenied', 'Request has expired');
+      }
+      const additionalHeaders = ossV4 ? ossV4[3] ?? '' : query['x-oss-additional-headers'] ?? '';
+      const payloadHash = ossV4 ? headerValue(req.headers, 'x-oss-content-sha256') : 'UNSIGNED-PAYLOAD';
+      const signature = ossV4 ? ossV4[4] : query['x-oss-signature'];
+      const resource = `/${bucket}/${key}`;
+      if (signOssV4(secretKey, req, resource, query, additionalHeaders, payloadHash, ossDate, scope) !== signature) {
+        throw new EmulatorError(403, 'SignatureDoesNotMatch');
+      }
+      return body;
+    }
+    const v1 = /^(OSS|KSS) ([^:]+):(.+)$/.exec(authorization);
+    const queryV1 = query.OSSAccessKeyId ? 'OSS' : query.KSSAccessKeyId ? 'KSS' : undefined;
+    const type = v1?.[1] ?? queryV1;
+    if (type) {
+      const dialect: DialectName = type === 'OSS' ? 'oss' : 'kss';
+      const ak = v1 ? v1[2] : query[`${type}AccessKeyId`];
+      const signature = v1 ? v1[3] : query.Signature;
+      const date = v1 ? headerValue(req.headers, 'date') : query.Expires;
+      if (ak !== accessKey) throw new EmulatorError(403, 'InvalidAccessKeyId');
+      if (!v1 && Number(date) < now) throw new EmulatorError(403, 'AccessDenied', 'Request has expired');
+      if (signV1(secretKey, `x-${dialect}-`, req, date, `/${bucket}/${key}`, query) !== signature) {
+        throw new EmulatorError(403, 'SignatureDoesNotMatch');
+      }
+      return body;
+    }
+    const cosAuth = authorization.startsWith('q-sign-algorithm=')
+      ? Object.fromEntries(new URLSearchParams(authorization))
+      : query['q-sign-algorithm']
+        ? query
+        : undefined;
+    if (cosAuth) {
+      if (cosAuth['q-ak'] !== accessKey) throw new EmulatorError(403, 'InvalidAccessKeyId');
+      const [start, end] = cosAuth['q-sign-time'].split(';').map(Number);
+      if (now < start - 60 || now > end) throw new EmulatorError(403, 'AccessDenied', 'Request has expired');
+      if (signCos(secretKey, req, path, query, cosAuth) !== cosAuth['q-signature']) {
+        throw new EmulatorError(403, 'SignatureDoesNotMatch');
+      }
+      return body;
+    }
+    const v4 = /^AWS4-HMAC-SHA256 Credential=([^/]+)\/([^,]+), ?SignedHeaders=([^,]+), ?Signature=([0-9a-f]+)$/.exec(
+      authorization,
+    );
+    const presigned = query['X-Amz-Algorithm'] === 'AWS4-HMAC-SHA256';
+    if (v4 !== null || presigned) {
+      const credential = v4 ? `${v4[1]}/${v4[2]}` : query['X-Amz-Credential'] ?? '';
+      const [ak, ...scopeParts] = credential.split('/');
+      const scope = scopeParts.join('/');
+      const amzDate = v4 ? headerValue(req.headers, 'x-amz-date') : query['X-Amz-Date'];
+      const signedHeaders = v4 ? v4[3] : query['X-Amz-SignedHeaders'];
+      const signature = v4 ? v4[4] : query['X-Amz-Signature'];
+      const payloadHash = v4 ? headerValue(req.headers, 'x-amz-content-sha256') : 'UNSIGNED-PAYLOAD';
+      if (ak !== accessKey) throw new EmulatorError(403, 'InvalidAccessKeyId');
+      const time = parseV4Date(amzDate);
+      if (
+        time === undefined ||
+        !scope.startsWith(`${amzDate.slice(0, 8)}/`) ||
+        !signedHeaders.split(';').includes('host')
+      ) {
+        throw new EmulatorError(400, 'AuthorizationQueryParametersError');
+      }
+      if (v4 ? Math.abs(now - time) > 15 * 60 : now > time + Number(query['X-Amz-Expires'])) {
+        throw new EmulatorError(403, v4 ? 'RequestTimeTooSkewed' : 'AccessDenied', 'Request has expired');
+      }
+      if (!payloadHash) throw new EmulatorError(400, 'InvalidRequest', 'Missing x-amz-content-sha256');
+      if (signV4(secretKey, req, path, query, signedHeaders, payloadHash, amzDate, scope) !== signature) {
+        throw new EmulatorError(403, 'SignatureDoesNotMatch');
+      }
+      if (payloadHash === 'STREAMING-AWS4-HMAC-SHA256-PAYLOAD') {
+        const decoded = decodeChunked(secretKey, body, signature, amzDate, scope);
+        if (decoded.length !== Number(headerValue(req.headers, 'x-amz-decoded-content-length'))) {
+          throw new EmulatorError(400, 'IncompleteBody');
+        }
+        return decoded;
+      }
+      if (payloadHash !== 'UNSIGNED-PAYLOAD' && payloadHash !== sha256(body)) {
+        throw new EmulatorError(400, 'XAmzContentSHA256Mismatch');
+      }
+      return body;
+    }
+    throw new EmulatorError(403, 'AccessDenied', 'Anonymous access is forbidden');
+  }
+
+  private _sendXml(res: ServerResponse, data: unknown): void {
+    res.setHeader('Content-Type', 'application/xml');
+    res.end(this._xml.buildObject(data));
+  }
+
+  private async _handleBucket(
+    dialect: DialectName,
+    req: IncomingMessage,
+    res: ServerResponse,
+    bucket: string,
+    query: Record<string, string>,
+    body: Buffer,
+  ): Promise<void> {
+    const objects = this._bucket(bucket);
+    // minio 客户端会检查和创建 bucket、查询 bucket 的区域
+    if (req.method === 'HEAD' || req.method === 'PUT') {
+      res.end();
+      return;
+    }
+    if (req.method === 'GET' && 'location' in query) {
+      this._sendXml(res, { LocationConstraint: '' });
+      return;
+    }
+    if (req.method === 'GET') {
+      const v2 = query['list-type'] === '2';
+      const maxKeys = Number(query['max-keys'] ?? 1000);
+      const marker = (v2 ? query['continuation-token'] ?? query['start-after'] : query.marker) ?? '';
+      const prefix = query.prefix ?? '';
+      const page = listKeys([...objects.keys()], prefix, query.delimiter ?? '', marker, maxKeys);
+      this._sendXml(res, {
+        ListBucketResult: {
+          Name: bucket,
+          Prefix: prefix,
+          MaxKeys: maxKeys,
+          IsTruncated: page.isTruncated,
+          ...(page.isTruncated ? (v2 ? { NextContinuationToken: page.next } : { NextMarker: page.next }) : {}),
+          Contents: page.contents.map((k) => {
+            const obj = objects.get(k) as StoredObject;
+            return {
+              Key: k,
+              LastModified: obj.lastModified.toISOString(),
+              ETag: `"${obj.etag}"`,
+              Size: obj.data.length,
+              StorageClass: obj.storageClass ?? 'STANDARD',
+            };
+          }),
+          CommonPrefixes: page.commonPrefixes.map((Prefix) => ({ Prefix })),
+        },
+      });
+      return;
+    }
+    if (req.method === 'POST' && 'delete' in query) {
+      const contentMd5 = headerValue(req.headers, 'content-md5');
+      if (contentMd5 !== crypto.createHash('md5').update(body).digest('base64')) {
+        throw new EmulatorError(400, 'InvalidDigest');
+      }
+      const xml = await parseStringPromise(body.toString(), { explicitArray: true });
+      const keys: string[] = (xml.Delete.Object ?? []).map((o: { Key: string[] }) => o.Key[0]);
+      keys.forEach((k) => objects.delete(k));
+      this._sendXml(res, { DeleteResult: { Deleted: keys.map((Key) => ({ Key })) } });
+      return;
+    }
+    throw new EmulatorError(405, 'MethodNotAllowed');
+  }
+
+  private async _handleObject(
+    dialect: DialectName,
+    req: IncomingMessage,
+    res: ServerResponse,
+    bucket: string,
+    key: string,
+    query: Record<string, string>,
+    body: Buffer,
+  ): Promise<void> {
+    const prefix = `x-${dialect}-`;
+    const objects = this._bucket(bucket);
+    const copySource = headerValue(req.headers, `${prefix}copy-source`);
+    if ('tagging' in query) {
+      return this._handleTagging(req, res, objects.get(key), body);
+    }
+    if ('restore' in query && req.method === 'POST') {
+      return this._handleRestore(res, objects.get(key), body);
+    }
+    switch (req.method) {
+      case 'GET':
+      case 'HEAD':
+        if ('uploadId' in query) {
+          const upload = this._getUpload(query.uploadId);
+          this._sendXml(res, {
+            ListPartsResult: {
+              Bucket: bucket,
+              Key: key,
+              UploadId: query.uploadId,
+              IsTruncated: false,
+              Part: [...upload.parts.entries()]
+                .sort((a, b) => a[0] - b[0])
+                .map(([PartNumber, p]) => ({ PartNumber, ETag: `"${p.etag}"`, Size: p.data.length })),
+            },
+          });
+          return;
+        }
+        return this._getObject(prefix, req, res, objects.get(key), query);
+      case 'PUT': {
+        if ('uploadId' in query) {
+          const upload = this._getUpload(query.uploadId);
+          checkCustomerKey(upload, getCustomerKeyMd5(prefix, req));
+          let data = body;
+          if (copySource) {
+            const source = this._getCopySource(prefix, copySource);
+            checkCustomerKey(source, getCustomerKeyMd5(prefix, req, true));
+            const range = /^bytes=(\d+)-(\d+)$/.exec(headerValue(req.headers, `${prefix}copy-source-range`));
+            data = range ? source.data.subarray(Number(range[1]), Number(range[2]) + 1) : source.data;
+          }
+          const etag = md5(data);
+          upload.parts.set(Number(query.partNumber), { data, etag });
+          if (copySource) {
+            this._sendXml(res, { CopyPartResult: { ETag: `"${etag}"`, LastModified: new Date().toISOString() } });
+          } else {
+            res.setHeader('ETag', `"${etag}"`);
+            res.end();
+          }
+          return;
+        }
+        if (headerValue(req.headers, 'if-none-match') === '*' && objects.has(key)) {
+          throw new EmulatorError(412, 'PreconditionFailed');
+        }
+        if (headerValue(req.headers, `${prefix}forbid-overwrite`) === 'true' && objects.has(key)) {
+          throw new EmulatorError(409, 'FileAlreadyExists', 'The object you specified already exists');
+        }
+        if (copySource) {
+          const source = this._getCopySource(prefix, copySource);
+          checkCustomerKey(source, getCustomerKeyMd5(prefix, req, true));
+          if (needsRestore(source)) {
+            throw new EmulatorError(403, 'InvalidObjectState', 'The source object is archived.');
+          }
+          const replace = /^replace/i.test(headerValue(req.headers, `${prefix}metadata-directive`));
+          const storageClass = headerValue(req.headers, `${prefix}storage-class`) || source.storageClass;
+          // 与 OSS 的默认行为一致，标签总是从源对象复制
+          const obj: StoredObject = replace
+            ? {
+                ...this._getMeta(prefix, req),
+                tags: source.tags,
+                storageClass,
+                data: source.data,
+                etag: source.etag,
+                lastModified: new Date(),
+              }
+            : {
+                ...source,
+                // 与 S3 一致，目标对象的加密方式由复制请求指定，不从源对象复制
+                ...this._getEncryption(prefix, req),
+                storageClass,
+                restoreExpiresAt: undefined,
+                lastModified: new Date(),
+              };
+          objects.set(key, obj);
+          this._sendXml(res, { CopyObjectResult: { ETag: `"${obj.etag}"`, LastModified: obj.lastModified } });
+          return;
+        }
+        const contentMd5 = headerValue(req.headers, 'content-md5');
+        if (contentMd5 && contentMd5 !== crypto.createHash('md5').update(body).digest('base64')) {
+          throw new EmulatorError(400, 'BadDigest');
+        }
+        const obj: StoredObject = {
+          ...this._getMeta(prefix, req),
+          data: body,
+          etag: md5(body),
+          lastModified: new Date(),
+        };
+        objects.set(key, obj);
+        res.setHeader('ETag', `"${obj.etag}"`);
+        res.end();
+        return;
+      }
+      case 'DELETE':
+        if ('uploadId' in query) {
+          this._getUpload(query.uploadId);
+          this._uploads.delete(query.uploadId);
+        } else {
+          objects.delete(key);
+        }
+        res.statusCode = 204;
+        res.end();
+        return;
+      case 'POST':
+        if ('uploads' in query) {
+          const uploadId = crypto.randomUUID().replace(/-/g, '');
+          this._uploads.set(uploadId, { ...this._getMeta(prefix, req), bucket, key, parts: new Map() });
+          this._sendXml(res, { InitiateMultipartUploadResult: { Bucket: bucket, Key: key, UploadId: uploadId } });
+          return;
+        }
+        if ('uploadId' in query) {
+          const upload = this._getUpload(query.uploadId);
+          const xml = await parseStringPromise(body.toString(), { explicitArray: true });
+          const parts: { PartNumber: string[]; ETag: string[] }[] = xml.CompleteMultipartUpload.Part ?? [];
+          const chunks = parts.map((p) => {
+            const part = upload.parts.get(Number(p.PartNumber[0]));
+            if (!part || `"${part.etag}"` !== p.ETag[0]) throw new EmulatorError(400, 'InvalidPart');
+            return part;
+          });
+          const etag = `${md5(Buffer.concat(chunks.map((c) => Buffer.from(c.etag, 'hex'))))}-${chunks.length}`;
+          objects.set(key, {
+            contentType: upload.contentType,
+            contentEncoding: upload.contentEncoding,
+            metadata: upload.metadata,
+            tags: upload.tags,
+            storageClass: upload.storageClass,
+            encryptionHeaders: upload.encryptionHeaders,
+            customerKeyMd5: upload.customerKeyMd5,
+            data: Buffer.concat(chunks.map((c) => c.data)),
+            etag,
+            lastModified: new Date(),
+          });
+          this._uploads.delete(query.uploadId);
+          this._sendXml(res, { CompleteMultipartUploadResult: { Bucket: bucket, Key: key, ETag: `"${etag}"` } });
+          return;
+        }
+        throw new EmulatorError(405, 'MethodNotAllowed');
+      default:
+        throw new EmulatorError(405, 'MethodNotAllowed');
+    }
+  }
+
+  private _getObject(
+    prefix: string,
+    req: IncomingMessage,
+    res: ServerResponse,
+    obj: StoredObject | undefined,
+    query: Record<string, string>,
+  ): void {
+    if (!obj) throw new EmulatorError(404, 'NoSuchKey', 'The specified key does not exist.');
+    checkCustomerKey(obj, getCustomerKeyMd5(prefix, req));
+    if (req.method === 'GET' && needsRestore(obj)) {
+      throw new EmulatorError(403, 'InvalidObjectState', 'The operation is not valid for the object state.');
+    }
+    const seconds = (d: Date) => Math.floor(d.getTime() / 1000);
+    const etagMatches = (v: string) => v === '*' || v.split(',').some((e) => e.trim().replace(/"/g, '') === obj.etag);
+    const ifMatch = headerValue(req.headers, 'if-match');
+    const ifNoneMatch = headerValue(req.headers, 'if-none-match');
+    const ifModifiedSince = headerValue(req.headers, 'if-modified-since');
+    const ifUnmodifiedSince = headerValue(req.headers, 'if-unmodified-since');
+    if (
+      ifMatch
+        ? !etagMatches(ifMatch)
+        : ifUnmodifiedSince && seconds(obj.lastModified) > seconds(new Date(ifUnmodifiedSince))
+    ) {
+      throw new EmulatorError(412, 'PreconditionFailed');
+    }
+    res.setHeader('ETag', `"${obj.etag}"`);
+    res.setHeader('Last-Modified', obj.lastModified.toUTCString());
+    if (
+      ifNoneMatch
+        ? etagMatches(ifNoneMatch)
+        : ifModifiedSince && seconds(obj.lastModified) <= seconds(new Date(ifModifiedSince))
+    ) {
+      res.statusCode = 304;
+      res.end();
+      return;
+    }
+    res.setHeader('Content-Type', query['response-content-type'] ?? obj.contentType ?? 'application/octet-stream');
+    if (obj.contentEncoding) res.setHeader('Content-Encoding', obj.contentEncoding);
+    if (query['response-content-disposition']) {
+      res.setHeader('Content-Disposition', query['response-content-disposition']);
+    }
+    for (const k in obj.metadata) {
+      res.setHeader(`${prefix}meta-${k}`, obj.metadata[k]);
+    }
+    if (obj.storageClass) res.setHeader(`${prefix}storage-class`, obj.storageClass);
+    for (const k in obj.encryptionHeaders) {
+      res.setHeader(k, obj.encryptionHeaders[k]);
+    }
+    if (obj.restoreExpiresAt && obj.restoreExpiresAt.getTime() > Date.now()) {
+      res.setHeader(`${prefix}restore`, `ongoing-request="false", expiry-date="${obj.restoreExpiresAt.toUTCString()}"`);
+    }
+    let data = obj.data;
+    const range = /^bytes=(\d+)-(\d*)$/.exec(headerValue(req.headers, 'range'));
+    if (range) {
+      const start = Number(range[1]);
+      const end = Math.min(range[2] ? Number(range[2]) : data.length - 1, data.length - 1);
+      if (start > end) throw new EmulatorError(416, 'InvalidRange');
+      res.statusCode = 206;
+      res.setHeader('Content-Range', `bytes ${start}-${end}/${data.length}`);
+      data = data.subarray(start, end + 1);
+    }
+    res.setHeader('Content-Length', data.length);
+    res.end(req.method === 'HEAD' ? undefined : data);
+  }
+
+  private async _handleTagging(
+    req: IncomingMessage,
+    res: ServerResponse,
+    obj: StoredObject | undefined,
+    body: Buffer,
+  ): Promise<void> {
+    if (!obj) throw new EmulatorError(404, 'NoSuchKey', 'The specified key does not exist.');
+    switch (req.method) {
+      case 'GET':
+        this._sendXml(res, {
+          Tagging: { TagSet: { Tag: Object.keys(obj.tags).map((Key) => ({ Key, Value: obj.tags[Key] })) } },
+        });
+        return;
+      case 'PUT': {
+        const xml = await parseStringPromise(body.toString(), { explicitArray: true });
+        const tags: { Key: string[]; Value?: string[] }[] = xml.Tagging?.TagSet?.[0]?.Tag ?? [];
+        obj.tags = Object.fromEntries(tags.map((t) => [t.Key[0], t.Value?.[0] ?? '']));
+        res.end();
+        return;
+      }
+      case 'DELETE':
+        obj.tags = {};
+        res.statusCode = 204;
+        res.end();
+        return;
+      default:
+        throw new EmulatorError(405, 'MethodNotAllowed');
+    }
+  }
+
+  /**
+   * 解冻立即完成，重复解冻时只延长副本的过期时间。
+   */
+  private async _handleRestore(res: ServerResponse, obj: StoredObject | undefined, body: Buffer): Promise<void> {
+    if (!obj) throw new EmulatorError(404, 'NoSuchKey', 'The specified key does not exist.');
+    if (!obj.storageClass || !ARCHIVE_CLASSES.has(obj.storageClass.toUpperCase())) {
+      throw new EmulatorError(400, 'OperationNotSupported', 'The object is not archived.');
+    }
+    const xml = body.length ? await parseStringPromise(body.toString(), { explicitArray: true }) : {};
+    const days = Number(xml.RestoreRequest?.Days?.[0] ?? 1);
+    res.statusCode = needsRestore(obj) ? 202 : 200;
+    obj.restoreExpiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    res.end();
+  }
+
+  private _getEncryption(
+    prefix: string,
+    req: IncomingMessage,
+  ): Pick<StoredObject, 'encryptionHeaders' | 'customerKeyMd5'> {
+    const encryptionHeaders: Record<string, string> = {};
+    for (const k in req.headers) {
+      if (k.startsWith(`${prefix}server-side-encryption`) && k !== `${prefix}server-side-encryption-customer-key`) {
+        encryptionHeaders[k] = headerValue(req.headers, k);
+      }
+    }
+    return { encryptionHeaders, customerKeyMd5: getCustomerKeyMd5(prefix, req) };
+  }
+
+  private _getMeta(
+    prefix: string,
+    req: IncomingMessage,
+  ): Pick<
+    StoredObject,
+    'contentType' | 'contentEncoding' | 'metadata' | 'tags' | 'storageClass' | 'encryptionHeaders' | 'customerKeyMd5'
+  > {
+    const metadata: Record<string, string> = {};
+    for (const k in req.headers) {
+      if (k.startsWith(`${prefix}meta-`)) metadata[k.slice(prefix.length + 5)] = headerValue(req.headers, k);
+    }
+    // S3 使用 aws-chunked 上传时，保存的 Content-Encoding 不包含 aws-chunked
+    const contentEncoding = headerValue(req.headers, 'content-encoding')
+      .split(',')
+      .filter((e) => e && e !== 'aws-chunked')
+      .join(',');
+    return {
+      contentType: req.headers['content-type'],
+      contentEncoding: contentEncoding || undefined,
+      metadata,
+      tags: Object.fromEntries(new URLSearchParams(headerValue(req.headers, `${prefix}tagging`))),
+      storageClass: headerValue(req.headers, `${prefix}storage-class`) || undefined,
+      ...this._getEncryption(prefix, req),
+    };
+  }
+
+  private _getCopySource(prefix: string, copySource: string): StoredObject {
+    // OSS 和 KS3 为 `/bucket/key`，S3 可以省略开头的 `/`，COS 为 `host/bucket/key`（path-style）
+    const path =
+      copySource.startsWith('/') || prefix === 'x-amz-'
+        ? `/${copySource.replace(/^\//, '')}`
+        : copySource.slice(copySource.indexOf('/'));
+    const [bucket, ...rest] = path.slice(1).split('/').map(decodeURIComponent);
+    const obj = this._bucket(bucket).get(rest.join('/'));
+    if (!obj) throw new EmulatorError(404, 'NoSuchKey', 'The specified copy source does not exist.');
+    return obj;
+  }
+
+  private _getUpload(uploadId: string): Upload {
+    const upload = this._uploads.get(uploadId);
+    if (!upload) throw new EmulatorError(404, 'NoSuchUpload');
+    return upload;
+  }
+}
+
+/**
+ * 启动模拟服务。
+ */
+export function startEmulator(options: EmulatorOptions): Promise<Emulator> {
+  return new Emulator(options).listen();
+}
+
+if (require.main === module) {
+  startEmulator({
+    accessKey: process.env.ACCESS_KEY ?? 'emulator',
+    secretKey: process.env.SECRET_KEY ?? 'emulator-secret',
+    port: Number(process.env.PORT ?? 9100),
+  }).then(
+    (emulator) => console.log(`==> emulator listening on http://127.0.0.1:${emulator.port}`),
+    (ex) => {
+      console.error(ex);
+      process.exitCode = 1;
+    },
+  );
+}
@@ -1,3 +1,4 @@
+import { execFileSync } from 'child_process';
 import path from 'path';
 import type { BuildOptions } from 'esbuild';
 import esbuild from 'esbuild';
@@ -32,8 +33,22 @@ async function bundle(type: 'cjs' | 'esm') {
     console.log(`==> dist/index.${type} bundled.`);
   }
 }
+/**
+ * 在独立进程中加载产物，确保依赖的导入路径在 cjs 和 esm 下都可以解析。
+ */
+function smoke(type: 'cjs' | 'esm') {
+  const outfile = `dist/index.${type === 'cjs' ? 'cjs' : 'mjs'}`;
+  const file = path.resolve(__dirname, '..', outfile);
+  const script = type === 'cjs' ? `require(${JSON.stringify(file)})` : `await import(${JSON.stringify(file)})`;
+  execFileSync(process.execPath, ['--input-type', type === 'cjs' ? 'commonjs' : 'module', '-e', script], {
+    stdio: 'inherit',
+  });
+  console.log(`==> ${outfile} loaded.`);
+}
 (async () => {
   await Promise.all([bundle('cjs'), bundle('esm')]);
+  smoke('cjs');
+  smoke('esm');
 
   if (process.env.WATCH) {
     const ctx = await esbuild.context(getOption('esm'));
@@ -42,4 +57,5 @@ async function bundle(type: 'cjs' | 'esm') {
   }
 })().catch((ex) => {
   console.error(ex);
+  process.exitCode = 1;
 });
@@ -1,27 +1,130 @@
 import crypto from 'crypto';
 import type { OutgoingHttpHeaders } from 'http';
 import type {
-  Readable,
-  FetchResult,
-  FetchOptions,
+  ObjectBody,
+  FetchResponse,
   ReadObjectResult,
+  ReadObjectOptions,
   WriteObjectOptions,
   BaseSDKConfig,
+  SDKRequestOptions,
+  ListObjectsOptions,
+  ListObjectsResult,
+  ObjectInfo,
+  SignedUrlOptions,
+  PostPolicyOptions,
+  PostPolicyResult,
+  CopyObjectOptions,
+  CopyPartSource,
+  DeleteObjectsResult,
+  MultipartPart,
+  RestoreObjectOptions,
+  StorageClass,
+  UploadPartOptions,
+  HeadObjectOptions,
+  EncryptionDialect,
 } from './common';
-import { BaseObjectStorageSDK, EMPTY_OPTS } from './common';
-import { gmt } from './util';
+import { NotFoundError, ObjectStorageError, PreconditionFailedError, createObjectStorageError } from './errors';
+import {
+  BaseObjectStorageSDK,
+  EMPTY_OPTS,
+  buildPostPolicy,
+  getPostPolicyFields,
+  getReadHeaders,
+  toReadObjectResult,
+  getResponseHeaderQuery,
+  parseListBucketResult,
+  parseListPartsResult,
+  parseDeleteResult,
+  parseTaggingResult,
+  stringifyTags,
+  parseObjectInfo,
+  toVendorStorageClass,
+  getEncryptionHeaders,
+  getCustomerKeyHeaders,
+} from './common';
+import type { CredentialProvider, Credentials } from './credentials';
+import { resolveCredentialProvider } from './credentials';
+import { sha256, toAmzDate } from './sigv4';
+import { encodeKey, gmt, openBody, stringifyQuery, toMetadataHeaders, trimETag, uriEncode } from './util';
 
 export interface AliyunSDKConfig extends BaseSDKConfig {
+  /** 例如 oss-cn-hangzhou */
   region: string;
+  /** 签名版本，默认为 v1（HMAC-SHA1）。v4 为 OSS4-HMAC-SHA256 */
+  signatureVersion?: 'v1' | 'v4';
 }
 
+const V4_ALGORITHM = 'OSS4-HMAC-SHA256';
+/** V4 签名中请求体的哈希，OSS 只支持不对请求体签名 */
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+
+/** 归一化的存储类型与 OSS 存储类型的对应关系 */
+const STORAGE_CLASSES: Record<StorageClass, string> = {
+  STANDARD: 'Standard',
+  IA: 'IA',
+  ARCHIVE: 'Archive',
+  COLD_ARCHIVE: 'ColdArchive',
+};
+
+/** OSS 服务端加密的请求头，不支持 SSE-C */
+const ENCRYPTION: EncryptionDialect = {
+  vendor: 'aliyun',
+  prefix: 'x-oss-',
+  kmsAlgorithm: 'KMS',
+  kmsKeyIdHeader: 'x-oss-server-side-encryption-key-id',
+};
+
+/**
+ * 需要参与签名的子资源，见 https://help.aliyun.com/document_detail/31951.html
+ */
+const SUB_RESOURCES = new Set([
+  'acl',
+  'uploads',
+  'location',
+  'cors',
+  'logging',
+  'website',
+  'referer',
+  'lifecycle',
+  'delete',
+  'append',
+  'tagging',
+  'objectMeta',
+  'uploadId',
+  'partNumber',
+  'security-token',
+  'position',
+  'restore',
+  'symlink',
+  'continuation-token',
+  'response-content-type',
+  'response-content-language',
+  'response-expires',
+  'response-cache-control',
+  'response-content-disposition',
+  'response-content-encoding',
+]);
+
 export class AliyunObjectStorageSDK extends BaseObjectStorageSDK {
   private _config: AliyunSDKConfig;
+  private _credentials: CredentialProvider;
+  /** OSS 的 CopyObject 只支持 1GB 以内的对象 */
+  protected _maxCopySize = 1024 * 1024 * 1024;
   constructor(config: AliyunSDKConfig) {
     super(config);
     this._config = config;
+    this._credentials = resolveCredentialProvider(config);
   }
-  private _getAuth(objectKey: string, method: string, headers: OutgoingHttpHeaders | undefined, date: string): string {
+  private _sign(
+    credentials: Credentials,
+    objectKey: string,
+    method: string,
+    headers: OutgoingHttpHeaders | undefined,
+    /** 请求头中的 Date，预签名 url 中为 Expires */
+    date: string,
+    query?: Record<string, string>,
+  ): string {
     // https://help.aliyun.com/document_detail/31951.html
     const contentString =
       `${method}\n` +
@@ -30,128 +133,462 @@ export class AliyunObjectStorageSDK extends BaseObjectStorageSDK {
       `${date}\n${
         // Date
         calcCanonicalizedOSSHeaders(headers) // CanonicalizedOSSHeaders
-      }/${this._config.bucket}/${objectKey}`; // CanonicalizedResource
-
-    const signature = crypto.createHmac('sha1', this._config.secretKey).update(contentString).digest('base64');
+      }/${this._config.bucket}/${objectKey}${calcSubResources(query)}`; // CanonicalizedResource
 
-    return `OSS ${this._config.accessKey}:${signature}`;
+    return crypto.createHmac('sha1', credentials.secretKey).update(contentString).digest('base64');
+  }
+  private _getAuth(
+    credentials: Credentials,
+    objectKey: string,
+    method: string,
+    headers: OutgoingHttpHeaders | undefined,
+    date: string,
+    query?: Record<string, string>,
+  ): string {
+    return `OSS ${credentials.accessKey}:${this._sign(credentials, objectKey, method, headers, date, query)}`;
+  }
+  /**
+   * V4 签名的 scope，地域不含 oss- 前缀，例如 `20231203/cn-hangzhou/oss/aliyun_v4_request`。
+   */
+  private _getV4Scope(ossDate: string): string {
+    return `${ossDate.slice(0, 8)}/${this._config.region.replace(/^oss-/, '')}/oss/aliyun_v4_request`;
+  }
+  private _hmacV4(credentials: Credentials, ossDate: string, stringToSign: string): string {
+    const [date, region, service, terminator] = this._getV4Scope(ossDate).split('/');
+    const signingKey = [date, region, service, terminator].reduce<Buffer | string>(
+      (key, data) => crypto.createHmac('sha256', key).update(data).digest(),
+      `aliyun_v4${credentials.secretKey}`,
+    );
+    return crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+  private _signV4(
+    credentials: Credentials,
+    objectKey: string,
+    method: string,
+    headers: OutgoingHttpHeaders,
+    /** x-oss-date，例如 20231203T121212Z */
+    ossDate: string,
+    query: Record<string, string> = {},
+  ): string {
+    // https://help.aliyun.com/zh/oss/developer-reference/recommend-to-use-signature-version-4
+    const canonicalHeaders: [string, string][] = [];
+    for (const k in headers) {
+      const lk = k.toLowerCase();
+      if (lk.startsWith('x-oss-') || lk === 'content-type' || lk === 'content-md5') {
+        canonicalHeaders.push([lk, `${headers[k]}`.trim()]);
+      }
+    }
+    canonicalHeaders.sort((a, b) => (a[0] < b[0] ? -1 : 1));
+    const canonicalRequest = [
+      method,
+      encodeKey(`/${this._config.bucket}/${objectKey}`),
+      Object.keys(query)
+        .sort()
+        .map((k) => (query[k] === '' ? uriEncode(k) : `${uriEncode(k)}=${uriEncode(query[k])}`))
+        .join('&'),
+      canonicalHeaders.map(([k, v]) => `${k}:${v}\n`).join(''),
+      '', // AdditionalHeaders
+      UNSIGNED_PAYLOAD,
+    ].join('\n');
+    return this._hmacV4(
+      credentials,
+      ossDate,
+      [V4_ALGORITHM, ossDate, this._getV4Scope(ossDate), sha256(canonicalRequest)].join('\n'),
+    );
+  }
+  private _request(req: SDKRequestOptions): Promise<FetchResponse> {
+    return this._withRetry(async () => {
+      const credentials = await this._credentials.getCredentials();
+      const headers: OutgoingHttpHeaders = { ...req.headers };
+      if (credentials.securityToken) {
+        headers['x-oss-security-token'] = credentials.securityToken;
+      }
+      if (this._config.signatureVersion === 'v4') {
+        const ossDate = toAmzDate(new Date());
+        headers['x-oss-date'] = ossDate;
+        headers['x-oss-content-sha256'] = UNSIGNED_PAYLOAD;
+        const signature = this._signV4(credentials, req.key, req.method, headers, ossDate, req.query);
+        headers.Authorization = `${V4_ALGORITHM} Credential=${credentials.accessKey}/${this._getV4Scope(
+          ossDate,
+        )},Signature=${signature}`;
+      } else {
+        const dt = gmt();
+        headers.Date = dt;
+        headers.Authorization = this._getAuth(credentials, req.key, req.method, headers, dt, req.query);
+      }
+      const { host, path } = this._resolveAddress(`${this._config.region}.aliyuncs.com`, this._config.bucket, req.key);
+      const qs = stringifyQuery(req.query);
+      return this._fetchAsync({
+        method: req.method,
+        host,
+        path: `${encodeKey(path)}${qs ? `?${qs}` : ''}`,
+        returnStream: req.returnStream ?? false,
+        headers,
+        body: req.body === undefined ? undefined : openBody(req.body),
+        limit: req.limit,
+        calcHash: req.calcHash,
+      });
+    }, this._isRetryableRequest(req));
   }
 
-  readObject(filename: string): Promise<ReadObjectResult | null> {
-    return new Promise((resolve, reject) => {
-      const dt = gmt();
-      const options: FetchOptions = {
+  async readObject(filename: string, options: ReadObjectOptions = EMPTY_OPTS): Promise<ReadObjectResult | null> {
+    if (options.decompress) {
+      return this._readDecompressed(filename, options);
+    }
+    try {
+      const { result } = await this._request({
         method: 'GET',
-        host: `${this._config.bucket}.${this._config.region}.aliyuncs.com`,
-        path: `/${filename}`,
+        key: filename,
+        headers: { ...getReadHeaders(options), ...getCustomerKeyHeaders(ENCRYPTION, options.encryption) },
         returnStream: true,
-        headers: {
-          Date: dt,
-          Authorization: this._getAuth(filename, 'GET', undefined, dt),
-        },
-      };
-      this._fetch(options, (err: Error, result: FetchResult) => {
-        if (!err) {
-          return resolve({
-            headers: result.headers,
-            stream: result.body,
-          });
-        }
-        if (!result?.Error) {
-          return reject(err);
-        }
-        if (result.Error.Code === 'NoSuchKey') {
-          // 文件不存在也当成正常情况返回。业务层直接 req.end()。
-          // 业务层新建面板后，可能从来没有上传过面板数据。
-          return resolve(null);
-        }
-        reject(err);
       });
-    });
-  }
-  writeObject(filename: string, req: Readable, options: WriteObjectOptions = EMPTY_OPTS): Promise<void | string> {
-    return new Promise((resolve, reject) => {
-      const dt = gmt();
-
-      const headers: OutgoingHttpHeaders = {
-        ...options.headers,
-        Date: dt,
-        Authorization: this._getAuth(filename, 'PUT', options.headers, dt),
-      };
-
-      if (options.contentEncoding) {
-        headers['Content-Encoding'] = options.contentEncoding;
+      return toReadObjectResult(result, 'x-oss-');
+    } catch (ex) {
+      if (ex instanceof ObjectStorageError && ex.status === 304) {
+        return { notModified: true };
       }
-      if (options.contentType) {
-        headers['Content-Type'] = options.contentType;
+      if (ex instanceof NotFoundError && ex.code === 'NoSuchKey') {
+        // 文件不存在也当成正常情况返回。业务层直接 req.end()。
+        // 业务层新建面板后，可能从来没有上传过面板数据。
+        return null;
       }
-      const fetchOptions: FetchOptions = {
+      throw ex;
+    }
+  }
+  async headObject(filename: string, options: HeadObjectOptions = EMPTY_OPTS): Promise<ObjectInfo | null> {
+    try {
+      const { result } = await this._request({
+        method: 'HEAD',
+        key: filename,
+        headers: getCustomerKeyHeaders(ENCRYPTION, options.encryption),
+        returnStream: true,
+      });
+      result?.body?.resume();
+      return parseObjectInfo(result?.responseHeaders ?? {}, 'x-oss-');
+    } catch (ex) {
+      if (ex instanceof NotFoundError) return null;
+      throw ex;
+    }
+  }
+  private _getWriteHeaders(options: WriteObjectOptions): OutgoingHttpHeaders {
+    const headers: OutgoingHttpHeaders = {
+      ...options.headers,
+      ...toMetadataHeaders('x-oss-meta-', options.metadata),
+      ...getEncryptionHeaders(ENCRYPTION, options.encryption),
+    };
+    if (options.contentEncoding) {
+      headers['Content-Encoding'] = options.contentEncoding;
+    }
+    if (options.contentType) {
+      headers['Content-Type'] = options.contentType;
+    }
+    if (options.ifNoneMatch === '*') {
+      headers['x-oss-forbid-overwrite'] = 'true';
+    }
+    if (options.tags) {
+      headers['x-oss-tagging'] = stringifyTags(options.tags);
+    }
+    if (options.storageClass) {
+      headers['x-oss-storage-class'] = toVendorStorageClass('aliyun', STORAGE_CLASSES, options.storageClass);
+    }
+    if (options.acl) {
+      headers['x-oss-object-acl'] = options.acl;
+    }
+    return headers;
+  }
+  async writeObject(
+    filename: string,
+    req: ObjectBody,
+    options: WriteObjectOptions = EMPTY_OPTS,
+  ): Promise<void | string> {
+    if (options.compress) {
+      return this._writeCompressed(filename, req, options);
+    }
+    // OSS 只支持通过 x-oss-forbid-overwrite 实现“仅在不存在时创建”，其它条件在本地检查。
+    await this._checkWritePrecondition(filename, {
+      ...options,
+      ifNoneMatch: options.ifNoneMatch === '*' ? undefined : options.ifNoneMatch,
+    });
+    try {
+      const { hash } = await this._request({
         method: 'PUT',
-        host: `${this._config.bucket}.${this._config.region}.aliyuncs.com`,
-        path: `/${filename}`,
-        returnStream: false,
+        key: filename,
         body: req,
         limit: options.limit,
         calcHash: options.calcHash,
-        headers,
-      };
-
-      this._fetch(fetchOptions, (err, result, reqBodyHash) => {
-        if (!err) {
-          // logger.debug(result);
-          return resolve(reqBodyHash);
-        }
-        // if (err === ABORTED_ERR || err === TOO_LARGE_ERR) {
-        //   // 不需要打印日志
-        //   // console.log(err);
-        // } else if (!result || !result.Error) {
-        //   logger.serror('ALI-OSS', err);
-        // } else {
-        //   logger.serror('ALI-OSS', JSON.stringify(result.Error));
-        // }
-        reject(result?.Error ?? err);
+        headers: this._getWriteHeaders(options),
       });
+      return hash;
+    } catch (ex) {
+      if (options.ifNoneMatch === '*' && ex instanceof ObjectStorageError && ex.status === 409) {
+        throw new PreconditionFailedError(ex.message, ex);
+      }
+      throw ex;
+    }
+  }
+
+  async deleteObject(filename: string): Promise<void> {
+    await this._request({ method: 'DELETE', key: filename });
+  }
+
+  protected async _deleteObjectsBatch(keys: string[]): Promise<DeleteObjectsResult> {
+    // https://help.aliyun.com/document_detail/31983.html
+    const body = this._buildDeleteObjectsBody(keys);
+    const { result } = await this._request({
+      method: 'POST',
+      key: '',
+      query: { delete: '' },
+      headers: {
+        'Content-Type': 'application/xml',
+        'Content-MD5': crypto.createHash('md5').update(body).digest('base64'),
+      },
+      body,
     });
+    return parseDeleteResult(result);
+  }
+  async listObjects(options: ListObjectsOptions = EMPTY_OPTS): Promise<ListObjectsResult> {
+    // https://help.aliyun.com/document_detail/187544.html
+    const query: Record<string, string> = { 'list-type': '2' };
+    if (options.prefix) query.prefix = options.prefix;
+    if (options.delimiter) query.delimiter = options.delimiter;
+    if (options.startAfter) query['start-after'] = options.startAfter;
+    if (options.maxKeys) query['max-keys'] = `${options.maxKeys}`;
+    if (options.continuationToken) query['continuation-token'] = options.continuationToken;
+    const { result } = await this._request({ method: 'GET', key: '', query });
+    return parseListBucketResult(result);
   }
 
-  deleteObject(filename: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const dt = gmt();
-      const options: FetchOptions = {
-        method: 'DELETE',
-        host: `${this._config.bucket}.${this._config.region}.aliyuncs.com`,
-        path: `/${filename}`,
-        returnStream: false,
-        headers: {
-          Date: dt,
-          Authorization: this._getAuth(filename, 'DELETE', undefined, dt),
+  async putObjectTagging(filename: string, tags: Record<string, string>): Promise<void> {
+    const body = this._buildTaggingBody(tags);
+    await this._request({
+      method: 'PUT',
+      key: filename,
+      query: { tagging: '' },
+      headers: {
+        'Content-Type': 'application/xml',
+        'Content-MD5': crypto.createHash('md5').update(body).digest('base64'),
+      },
+      body,
+    });
+  }
+  async getObjectTagging(filename: string): Promise<Record<string, string>> {
+    const { result } = await this._request({ method: 'GET', key: filename, query: { tagging: '' } });
+    return parseTaggingResult(result);
+  }
+  async deleteObjectTagging(filename: string): Promise<void> {
+    await this._request({ method: 'DELETE', key: filename, query: { tagging: '' } });
+  }
+  async restoreObject(filename: string, options: RestoreObjectOptions = EMPTY_OPTS): Promise<void> {
+    // https://help.aliyun.com/document_detail/52930.html
+    const body = this._buildRestoreBody(options, 'JobParameters');
+    await this._request({
+      method: 'POST',
+      key: filename,
+      query: { restore: '' },
+      headers: {
+        'Content-Type': 'application/xml',
+        'Content-MD5': crypto.createHash('md5').update(body).digest('base64'),
+      },
+      body,
+    });
+  }
+
+  private _getCopySource(src: string, bucket = this._config.bucket): string {
+    return `/${bucket}/${encodeURIComponent(src)}`;
+  }
+  async copyObject(src: string, dest: string, options: CopyObjectOptions = EMPTY_OPTS): Promise<void> {
+    // https://help.aliyun.com/document_detail/31979.html
+    const headers: OutgoingHttpHeaders = {
+      ...options.headers,
+      ...toMetadataHeaders('x-oss-meta-', options.metadata),
+      ...getEncryptionHeaders(ENCRYPTION, options.encryption),
+      ...getCustomerKeyHeaders(ENCRYPTION, options.sourceEncryption, true),
+      'x-oss-copy-source': this._getCopySource(src, options.sourceBucket),
+      'x-oss-metadata-directive': options.metadataDirective ?? 'COPY',
+    };
+    if (options.contentType) {
+      headers['Content-Type'] = options.contentType;
+    }
+    if (options.storageClass) {
+      headers['x-oss-storage-class'] = toVendorStorageClass('aliyun', STORAGE_CLASSES, options.storageClass);
+    }
+    if (options.acl) {
+      headers['x-oss-object-acl'] = options.acl;
+    }
+    const { result } = await this._request({ method: 'PUT', key: dest, headers });
+    if (result?.Error) {
+      // 复制请求可能返回 200 但响应体为错误信息
+      throw createObjectStorageError(result.Error.Message ?? result.Error.Code, {
+        code: result.Error.Code,
+        requestId: result.Error.RequestId,
+      });
+    }
+  }
+  async getSignedUrl(filename: string, options: SignedUrlOptions = EMPTY_OPTS): Promise<string> {
+    const method = options.method ?? 'GET';
+    const query = getResponseHeaderQuery(options.responseHeaders);
+    const headers: OutgoingHttpHeaders = options.contentType ? { 'Content-Type': options.contentType } : {};
+    const { host, path } = this._resolveAddress(`${this._config.region}.aliyuncs.com`, this._config.bucket, filename);
+    const credentials = await this._credentials.getCredentials();
+    const { securityToken } = credentials;
+    if (this._config.signatureVersion === 'v4') {
+      const ossDate = toAmzDate(new Date());
+      const signQuery: Record<string, string> = {
+        ...query,
+        'x-oss-signature-version': V4_ALGORITHM,
+        'x-oss-credential': `${credentials.accessKey}/${this._getV4Scope(ossDate)}`,
+        'x-oss-date': ossDate,
+        'x-oss-expires': `${options.expires ?? 3600}`,
+      };
+      if (securityToken) signQuery['x-oss-security-token'] = securityToken;
+      const signature = this._signV4(credentials, filename, method, headers, ossDate, signQuery);
+      return this._buildUrl(host, path, { ...signQuery, 'x-oss-signature': signature });
+    }
+    const expires = `${((Date.now() / 1000) | 0) + (options.expires ?? 3600)}`;
+    if (securityToken) query['security-token'] = securityToken;
+    const signature = this._sign(credentials, filename, method, headers, expires, query);
+    return this._buildUrl(host, path, {
+      ...query,
+      OSSAccessKeyId: credentials.accessKey,
+      Expires: expires,
+      Signature: signature,
+    });
+  }
+  async createPostPolicy(options: PostPolicyOptions): Promise<PostPolicyResult> {
+    // https://help.aliyun.com/document_detail/31988.html
+    const { host, path } = this._resolveAddress(`${this._config.region}.aliyuncs.com`, this._config.bucket, '');
+    // 签名相关的字段也需要出现在 policy 的条件中
+    const credentials = await this._credentials.getCredentials();
+    const ossFields: Record<string, string> = {};
+    if (credentials.securityToken) {
+      ossFields['x-oss-security-token'] = credentials.securityToken;
+    }
+    if (this._config.signatureVersion === 'v4') {
+      const ossDate = toAmzDate(new Date());
+      ossFields['x-oss-signature-version'] = V4_ALGORITHM;
+      ossFields['x-oss-credential'] = `${credentials.accessKey}/${this._getV4Scope(ossDate)}`;
+      ossFields['x-oss-date'] = ossDate;
+      const { policy } = buildPostPolicy(this._config.bucket, options, toPolicyConditions(ossFields));
+      return {
+        url: this._buildUrl(host, path),
+        fields: {
+          ...getPostPolicyFields(options),
+          ...ossFields,
+          policy,
+          'x-oss-signature': this._hmacV4(credentials, ossDate, policy),
         },
       };
-      this._fetch(options, (err, result) => {
-        if (!err) {
-          // logger.debug(result);
-          return resolve();
-        }
-        // if (!result || !result.Error) {
-        //   logger.serror('TX-OSS', err);
-        // } else {
-        //   logger.serror('TX-OSS', JSON.stringify(result.Error));
-        // }
-        reject(result?.Error ?? err);
-      });
+    }
+    const { policy } = buildPostPolicy(this._config.bucket, options, toPolicyConditions(ossFields));
+    return {
+      url: this._buildUrl(host, path),
+      fields: {
+        ...getPostPolicyFields(options),
+        ...ossFields,
+        OSSAccessKeyId: credentials.accessKey,
+        policy,
+        Signature: crypto.createHmac('sha1', credentials.secretKey).update(policy).digest('base64'),
+      },
+    };
+  }
+  async initiateMultipartUpload(filename: string, options: WriteObjectOptions = EMPTY_OPTS): Promise<string> {
+    const { result } = await this._request({
+      method: 'POST',
+      key: filename,
+      query: { uploads: '' },
+      headers: this._getWriteHeaders(options),
+    });
+    return (result?.InitiateMultipartUploadResult as { UploadId: string }).UploadId;
+  }
+  async uploadPart(
+    filename: string,
+    uploadId: string,
+    partNumber: number,
+    body: Buffer,
+    options: UploadPartOptions = EMPTY_OPTS,
+  ): Promise<string> {
+    const { result } = await this._request({
+      method: 'PUT',
+      key: filename,
+      query: { partNumber: `${partNumber}`, uploadId },
+      headers: getCustomerKeyHeaders(ENCRYPTION, options.encryption),
+      body,
+      returnStream: true,
     });
+    result?.body?.resume();
+    return trimETag(result?.responseHeaders?.etag);
   }
+  async uploadPartCopy(
+    dest: string,
+    uploadId: string,
+    partNumber: number,
+    source: CopyPartSource,
+    options: UploadPartOptions = EMPTY_OPTS,
+  ): Promise<string> {
+    const { result } = await this._request({
+      method: 'PUT',
+      key: dest,
+      query: { partNumber: `${partNumber}`, uploadId },
+      headers: {
+        'x-oss-copy-source': this._getCopySource(source.key, source.bucket),
+        'x-oss-copy-source-range': `bytes=${source.start}-${source.end}`,
+        ...getCustomerKeyHeaders(ENCRYPTION, source.encryption, true),
+        ...getCustomerKeyHeaders(ENCRYPTION, options.encryption),
+      },
+    });
+    return trimETag((result?.CopyPartResult as { ETag: string } | undefined)?.ETag);
+  }
+  async completeMultipartUpload(filename: string, uploadId: string, parts: MultipartPart[]): Promise<void> {
+    await this._request({
+      method: 'POST',
+      key: filename,
+      query: { uploadId },
+      headers: { 'Content-Type': 'application/xml' },
+      body: this._buildCompleteMultipartBody(parts),
+    });
+  }
+  async abortMultipartUpload(filename: string, uploadId: string): Promise<void> {
+    await this._request({ method: 'DELETE', key: filename, query: { uploadId } });
+  }
+  async listParts(filename: string, uploadId: string): Promise<MultipartPart[]> {
+    const parts: MultipartPart[] = [];
+    let marker: string | undefined;
+    do {
+      const query: Record<string, string> = { uploadId };
+      if (marker) query['part-number-marker'] = marker;
+      const { result } = await this._request({ method: 'GET', key: filename, query });
+      const page = parseListPartsResult(result);
+      parts.push(...page.parts);
+      marker = page.nextPartNumberMarker;
+    } while (marker);
+    return parts;
+  }
+}
+
+function toPolicyConditions(fields: Record<string, string>): unknown[] {
+  return Object.keys(fields).map((k) => ({ [k]: fields[k] }));
 }
 
 function calcCanonicalizedOSSHeaders(headers?: OutgoingHttpHeaders): string {
   if (!headers) return '';
-  const props = [];
+  const props: [string, unknown][] = [];
   for (const k in headers) {
     const lk = k.toLowerCase();
-    if (lk.startsWith('x-kss-')) {
-      props.push(`${lk}:${headers[k]}`);
+    if (lk.startsWith('x-oss-')) {
+      props.push([lk, headers[k]]);
     }
   }
+  // 按名称排序，不能直接对 `name:value` 排序，否则 x-oss-meta-a 会排在 x-oss-meta-a-b 之后
+  props.sort((a, b) => (a[0] < b[0] ? -1 : 1));
   // 如果设置CanonicalizedOSSHeaders为空，则无需在最后添加分隔符\n
-  return props.length ? `${props.sort().join('\n')}\n` : '';
+  return props.length ? `${props.map(([k, v]) => `${k}:${v}`).join('\n')}\n` : '';
+}
+
+function calcSubResources(query?: Record<string, string>): string {
+  if (!query) return '';
+  const props = Object.keys(query)
+    .filter((k) => SUB_RESOURCES.has(k))
+    .sort()
+    .map((k) => (query[k] === '' ? k : `${k}=${query[k]}`));
+  return props.length ? `?${props.join('&')}` : '';
 }
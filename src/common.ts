@@ -1,29 +1,116 @@
-import type { IncomingMessage, ClientRequest, OutgoingHttpHeaders } from 'http';
+import type { IncomingMessage, IncomingHttpHeaders, OutgoingHttpHeaders } from 'http';
 import { request, Agent } from 'http';
+import type { AgentOptions as HttpsAgentOptions } from 'https';
+import { request as httpsRequest, Agent as HttpsAgent } from 'https';
 import { createHash } from 'crypto';
-import type { Readable } from 'stream';
+import type { Readable, Transform, Writable } from 'stream';
 import pump from 'pump';
-import { Parser as XMLParser } from 'xml2js';
+import { Parser as XMLParser, Builder as XMLBuilder } from 'xml2js';
 import getRawBody from 'raw-body';
 export { Readable, Writable } from 'stream';
-import { waitForDrain } from './util';
+import {
+  ConcurrencyPool,
+  decodeMetadataValue,
+  encodeKey,
+  gmt,
+  isReplayableBody,
+  stringifyQuery,
+  toArray,
+  trimETag,
+  uriEncode,
+  waitForDrain,
+} from './util';
+import { copyLarge, uploadLarge } from './multipart';
+import { compressBody, decompressResult } from './compression';
+import type { CredentialProvider } from './credentials';
+import type { NormalizedRetryOptions } from './retry';
+import { getRetryDelay, isRetryableError, normalizeRetryOptions, sleep } from './retry';
+import {
+  ABORTED_ERR,
+  AccessDeniedError,
+  NotFoundError,
+  ObjectStorageError,
+  PreconditionFailedError,
+  TOO_LARGE_ERR,
+  TimeoutError,
+  createObjectStorageError,
+  toObjectStorageError,
+} from './errors';
 
 /** @internal */
 export const EMPTY_OPTS = {};
 /** @internal */
 export type HashType = 'md5' | 'sha1' | 'sha128' | 'sha256';
-export const ABORTED_ERR = new Error('aborted');
-export const TOO_LARGE_ERR = new Error('too_large');
 
-export type WriteObjectOptions = {
+/**
+ * 条件读写的参数，语义与 http 的同名请求头一致。
+ */
+export type ConditionalOptions = {
+  /** 仅当对象的 ETag 与之相同时才读写，`*` 表示对象存在 */
+  ifMatch?: string;
+  /** 仅当对象的 ETag 与之不同时才读写，写入时 `*` 表示仅在对象不存在时创建 */
+  ifNoneMatch?: string;
+  ifModifiedSince?: Date;
+  ifUnmodifiedSince?: Date;
+};
+
+/**
+ * 归一化的存储类型，写入时转换为各云厂商的名称，headObject 等返回时转换回来：
+ * - STANDARD：标准存储
+ * - IA：低频访问存储
+ * - ARCHIVE：归档存储（S3 为 GLACIER），读取前需要调用 restoreObject 解冻
+ * - COLD_ARCHIVE：冷归档存储（腾讯云和 S3 为 DEEP_ARCHIVE），读取前需要调用 restoreObject 解冻
+ */
+export type StorageClass = 'STANDARD' | 'IA' | 'ARCHIVE' | 'COLD_ARCHIVE';
+/** 对象的访问权限，不指定时继承 bucket 的权限 */
+export type ObjectAcl = 'private' | 'public-read' | 'public-read-write';
+/**
+ * 服务端加密方式：
+ * - provider：使用云厂商托管的密钥（SSE-S3、SSE-OSS、SSE-COS 等）
+ * - kms：使用 KMS 托管的密钥，不指定 keyId 时使用默认密钥
+ * - customer：使用用户提供的 256 位密钥（SSE-C），读取和复制该对象时需要提供同样的密钥
+ */
+export type ServerSideEncryption =
+  | { type: 'provider' }
+  | { type: 'kms'; keyId?: string }
+  | { type: 'customer'; key: Buffer };
+
+/** 支持的 content-encoding，br 为 brotli */
+export type ContentEncoding = 'deflate' | 'gzip' | 'br';
+export type CompressOptions = {
+  /** 压缩级别，gzip 和 deflate 为 0-9，br 为 0-11。不指定时使用 zlib 的默认级别。 */
+  level?: number;
+  /** limit 限制压缩前（original）还是压缩后（compressed）的大小，默认为 original */
+  limitOn?: 'original' | 'compressed';
+};
+
+export type WriteObjectOptions = ConditionalOptions & {
   /** 最大允许的文件大小，以 byte 计数。不指定参数或参数 <= 0 则不限制大小。 */
   limit?: number;
   /** 是否计算上传文件的哈希，如果指定为 true，则计算 sha256。也可以指定哈希算法。  */
   calcHash?: HashType;
   /** 设置 content-type */
   contentType?: string;
-  /** 设置 content-encoding */
-  contentEncoding?: 'deflate' | 'gzip';
+  /** 设置 content-encoding。不指定 compress 时只设置请求头，内容需要调用方自行压缩。 */
+  contentEncoding?: ContentEncoding;
+  /**
+   * 使用 zlib 按 contentEncoding（默认为 gzip）压缩后上传，并设置 content-encoding。
+   * calcHash 针对压缩前的内容计算。readObject 可以通过 decompress 自动解压。
+   */
+  compress?: boolean | CompressOptions;
+  /**
+   * 用户自定义元数据，key 不需要厂商前缀，写入时转为小写。
+   * 值可以包含非 ASCII 字符，会被编码后写入，readObject 和 headObject 返回时自动解码。
+   */
+  metadata?: Record<string, string>;
+  /** 对象标签，可以在云厂商的生命周期规则中使用 */
+  tags?: Record<string, string>;
+  /** 存储类型，不指定时使用 bucket 的默认存储类型 */
+  storageClass?: StorageClass;
+  /** 访问权限 */
+  acl?: ObjectAcl;
+  /** 服务端加密，不指定时使用 bucket 的默认加密配置 */
+  encryption?: ServerSideEncryption;
   /** 额外的 headers */
   headers?: Record<string, string>;
 };
@@ -41,7 +128,10 @@ export type FetchOptions = {
   //     } & Record<string, string>)
   //   | null;
   headers?: OutgoingHttpHeaders;
-  body?: Readable;
+  /** 请求体。Buffer 会直接发送并设置 Content-Length。 */
+  body?: Readable | Buffer;
+  /** 对 Readable 请求体再做一次编码后发送，例如 aws-chunked。limit 和 calcHash 针对编码前的数据 */
+  bodyEncoder?: Transform;
   limit?: number;
   calcHash?: HashType;
 };
@@ -51,30 +141,811 @@ export type FetchOptions = {
 export type FetchResult = {
   body?: Readable;
   headers?: Record<string, string>;
+  /** 原始的响应头，仅在 returnStream 时存在 */
+  responseHeaders?: IncomingHttpHeaders;
   Error?: {
     // 腾讯云返回的接口数据字段
     Code: string;
+    Message?: string;
+    RequestId?: string;
   };
   [prop: string]: unknown;
 };
+export type SignedUrlOptions = {
+  /** 默认为 GET */
+  method?: 'GET' | 'PUT';
+  /** 有效期，以秒计数，默认 3600 */
+  expires?: number;
+  /** PUT 时参与签名的 Content-Type，客户端上传时必须使用相同的 Content-Type */
+  contentType?: string;
+  /**
+   * GET 时覆盖的响应头，例如 `{ 'Content-Disposition': 'attachment; filename="a.txt"' }`，
+   * 会被转换为 response-content-disposition 等参数。
+   */
+  responseHeaders?: Record<string, string>;
+};
+/**
+ * 将 SignedUrlOptions.responseHeaders 转换为 response-* 参数。
+ * @internal
+ */
+export function getResponseHeaderQuery(responseHeaders?: Record<string, string>): Record<string, string> {
+  const query: Record<string, string> = {};
+  if (!responseHeaders) return query;
+  for (const k in responseHeaders) {
+    query[`response-${k.toLowerCase()}`] = responseHeaders[k];
+  }
+  return query;
+}
+
+export type PostPolicyOptions = {
+  /** 允许上传的 key 前缀 */
+  keyPrefix: string;
+  /** 最大允许的文件大小，以 byte 计数，与 WriteObjectOptions.limit 含义相同。不指定或 <= 0 则不限制。 */
+  maxSize?: number;
+  /** 允许的 content-type，客户端需要在表单中提交 Content-Type 字段 */
+  contentTypes?: string[];
+  /** 有效期，以秒计数，默认 3600 */
+  expires?: number;
+};
+export type PostPolicyResult = {
+  /** 表单提交的地址 */
+  url: string;
+  /**
+   * 需要提交的表单字段，file 字段必须放在最后。
+   * key 默认为 `${keyPrefix}${filename}`，客户端可以替换为其它以 keyPrefix 开头的 key。
+   */
+  fields: Record<string, string>;
+};
+/**
+ * 生成表单上传的 policy，返回 base64 编码后的 policy 和原始 json。
+ * @param extraConditions 云厂商需要的额外条件，例如腾讯云的 q-ak
+ * @internal
+ */
+export function buildPostPolicy(
+  bucket: string,
+  options: PostPolicyOptions,
+  extraConditions: unknown[] = [],
+): { policy: string; json: string } {
+  const conditions: unknown[] = [
+    { bucket },
+    ['starts-with', '$key', options.keyPrefix],
+    { success_action_status: '200' },
+  ];
+  if (options.maxSize && options.maxSize > 0) {
+    conditions.push(['content-length-range', 0, options.maxSize]);
+  }
+  const contentTypes = options.contentTypes ?? [];
+  if (contentTypes.length === 1) {
+    conditions.push(['eq', '$Content-Type', contentTypes[0]]);
+  } else if (contentTypes.length > 1) {
+    conditions.push(['in', '$Content-Type', contentTypes]);
+  }
+  const json = JSON.stringify({
+    expiration: new Date(Date.now() + (options.expires ?? 3600) * 1000).toISOString(),
+    conditions: [...conditions, ...extraConditions],
+  });
+  return { policy: Buffer.from(json).toString('base64'), json };
+}
+/**
+ * 表单上传的公共字段。
+ * @internal
+ */
+export function getPostPolicyFields(options: PostPolicyOptions): Record<string, string> {
+  const fields: Record<string, string> = {
+    key: `${options.keyPrefix}\${filename}`,
+    success_action_status: '200',
+  };
+  if (options.contentTypes?.length === 1) {
+    fields['Content-Type'] = options.contentTypes[0];
+  }
+  return fields;
+}
+
+export type DeleteObjectsResult = {
+  /** 删除成功的 key */
+  deleted: string[];
+  /** 删除失败的 key 及原因 */
+  errors: { key: string; code: string; message: string }[];
+};
+/** 单次批量删除请求支持的最大 key 数量 */
+const DELETE_BATCH_SIZE = 1000;
+
+/**
+ * 将标签编码为 x-oss-tagging 等请求头的值，例如 `a=1&b=2`。
+ * @internal
+ */
+export function stringifyTags(tags: Record<string, string>): string {
+  return Object.keys(tags)
+    .map((k) => `${uriEncode(k)}=${uriEncode(tags[k])}`)
+    .join('&');
+}
+type XMLTag = { Key: string; Value?: string };
+/**
+ * 解析 GetObjectTagging 返回的 Tagging 格式的 xml 结果。
+ * @internal
+ */
+export function parseTaggingResult(result: FetchResult | undefined): Record<string, string> {
+  const tagging = result?.Tagging as { TagSet?: { Tag?: XMLTag | XMLTag[] } | '' } | undefined;
+  const tags: Record<string, string> = {};
+  for (const tag of toArray(tagging?.TagSet ? tagging.TagSet.Tag : undefined)) {
+    tags[tag.Key] = typeof tag.Value === 'string' ? tag.Value : '';
+  }
+  return tags;
+}
+
+type XMLDeleteError = { Key: string; Code: string; Message?: string };
+/**
+ * 解析 DeleteResult 格式的 xml 结果。
+ * @internal
+ */
+export function parseDeleteResult(result: FetchResult | undefined): DeleteObjectsResult {
+  const data = (result?.DeleteResult ?? {}) as {
+    Deleted?: { Key: string } | { Key: string }[];
+    Error?: XMLDeleteError | XMLDeleteError[];
+  };
+  return {
+    deleted: toArray(data.Deleted).map((d) => d.Key),
+    errors: toArray(data.Error).map((e) => ({ key: e.Key, code: e.Code, message: e.Message ?? '' })),
+  };
+}
+
+export type CopyObjectOptions = {
+  /** 源对象所在的 bucket，默认为当前 bucket。只支持同一账号、同一地域下的 bucket。 */
+  sourceBucket?: string;
+  /** COPY 表示复制源对象的元数据，REPLACE 表示使用 contentType 和 headers 替换元数据。默认为 COPY。 */
+  metadataDirective?: 'COPY' | 'REPLACE';
+  /** 额外的 headers */
+  headers?: Record<string, string>;
+  /** metadataDirective 为 REPLACE 时设置 content-type */
+  contentType?: string;
+  /** metadataDirective 为 REPLACE 时设置的用户自定义元数据，参见 {@link WriteObjectOptions.metadata} */
+  metadata?: Record<string, string>;
+  /** 目标对象的存储类型，与 metadataDirective 无关 */
+  storageClass?: StorageClass;
+  /** 目标对象的访问权限，与 metadataDirective 无关 */
+  acl?: ObjectAcl;
+  /** 目标对象的服务端加密，与 metadataDirective 无关 */
+  encryption?: ServerSideEncryption;
+  /** 源对象使用 SSE-C 加密时，需要指定加密时使用的密钥 */
+  sourceEncryption?: ServerSideEncryption;
+};
+
+export type RestoreObjectOptions = {
+  /** 解冻后的副本保留的天数，默认为 1 */
+  days?: number;
+  /** 解冻的优先级，越快费用越高，默认为 Standard。金山云不支持。 */
+  tier?: 'Expedited' | 'Standard' | 'Bulk';
+};
+
+export type CopyPartSource = {
+  key: string;
+  /** 默认为当前 bucket */
+  bucket?: string;
+  /** 复制的字节范围，闭区间 */
+  start: number;
+  end: number;
+  /** 源对象使用 SSE-C 加密时，需要指定加密时使用的密钥 */
+  encryption?: ServerSideEncryption;
+};
+
+export type UploadPartOptions = {
+  /** 与 initiateMultipartUpload 相同的服务端加密参数，只有 SSE-C 需要在每个分片中指定 */
+  encryption?: ServerSideEncryption;
+};
+
+export type MultipartPart = {
+  partNumber: number;
+  etag: string;
+  size: number;
+};
+/**
+ * 分片上传的断点信息，可以 JSON 序列化后保存，用于在之后的进程中继续上传。
+ */
+export type MultipartCheckpoint = {
+  filename: string;
+  uploadId: string;
+  partSize: number;
+  /** 已经上传成功的分片 */
+  parts: MultipartPart[];
+};
+export type UploadLargeOptions = WriteObjectOptions & {
+  /** 分片大小，以 byte 计数，默认 8MB */
+  partSize?: number;
+  /** 同时上传的分片数，默认 4 */
+  concurrency?: number;
+  /**
+   * 之前中断的上传的断点信息。续传时需要传入与之前相同内容的 Readable，已上传的分片会被跳过（但仍会参与 limit 和 calcHash 计算）。
+   */
+  checkpoint?: MultipartCheckpoint;
+  /** 每个分片上传成功后回调最新的断点信息 */
+  onCheckpoint?: (checkpoint: MultipartCheckpoint) => void;
+};
+
+type XMLListPart = {
+  PartNumber: string;
+  ETag: string;
+  Size: string;
+};
+/**
+ * 解析 ListPartsResult 格式的 xml 结果。
+ * @internal
+ */
+export function parseListPartsResult(result: FetchResult | undefined): {
+  parts: MultipartPart[];
+  nextPartNumberMarker?: string;
+} {
+  const data = (result?.ListPartsResult ?? {}) as {
+    IsTruncated?: string;
+    NextPartNumberMarker?: string;
+    Part?: XMLListPart | XMLListPart[];
+  };
+  return {
+    parts: toArray(data.Part).map((p) => ({
+      partNumber: Number(p.PartNumber),
+      etag: trimETag(p.ETag),
+      size: Number(p.Size),
+    })),
+    nextPartNumberMarker: data.IsTruncated === 'true' ? data.NextPartNumberMarker : undefined,
+  };
+}
+
+/**
+ * 上传的数据。字符串表示本地文件路径；函数每次调用需要返回新的 Readable。
+ * 除 Readable 外的类型都可以重复读取，请求失败时会自动重试。
+ */
+export type ObjectBody = Readable | Buffer | string | (() => Readable);
+/**
+ * 请求失败后的重试策略。
+ */
+export type RetryOptions = {
+  /** 最大尝试次数（包含第一次请求），默认 3 */
+  maxAttempts?: number;
+  /** 指数退避的初始等待时间，以毫秒计数，默认 100 */
+  baseDelay?: number;
+  /** 单次最长等待时间，以毫秒计数，默认 10000。Retry-After 也受该值限制 */
+  maxDelay?: number;
+  /** 需要重试的 http 状态码，默认 429 和 500、502、503、504 */
+  retryableStatus?: number[];
+  /** 需要重试的错误码，默认为 ECONNRESET 等网络错误。限流和超时总是会重试 */
+  retryableCodes?: string[];
+};
+/**
+ * 各 SDK 内部发起请求的参数，由各 SDK 的 _request 转换为 FetchOptions 并签名。
+ * @internal
+ */
+export type SDKRequestOptions = {
+  method: string;
+  /** 对象的 key，bucket 级别的请求传空字符串 */
+  key: string;
+  query?: Record<string, string>;
+  headers?: OutgoingHttpHeaders;
+  returnStream?: boolean;
+  body?: ObjectBody;
+  limit?: number;
+  calcHash?: HashType;
+};
+/**
+ * @internal
+ */
+export type FetchResponse = {
+  result?: FetchResult;
+  /** 请求体的哈希，仅在指定了 calcHash 时存在 */
+  hash?: string;
+};
+/**
+ * 归一化后的对象元信息。
+ */
+export type ObjectInfo = {
+  size: number;
+  etag: string;
+  lastModified: Date;
+  contentType?: string;
+  contentEncoding?: string;
+  /**
+   * 存储类型，已知的类型转换为 {@link StorageClass}，其他类型保留云厂商的名称。
+   * 部分云厂商对标准存储不返回该字段。
+   */
+  storageClass?: string;
+  /** 归档对象的解冻状态，没有发起过解冻或解冻的副本已过期时不存在 */
+  restore?: RestoreStatus;
+  /** 服务端加密方式，没有加密时不存在 */
+  encryption?: ServerSideEncryption['type'];
+  /** 用户自定义元数据，key 已去掉厂商前缀（例如 x-oss-meta-）并转为小写 */
+  metadata: Record<string, string>;
+};
+export type RestoreStatus = {
+  /** 是否正在解冻，为 false 时表示已经解冻，可以读取 */
+  ongoing: boolean;
+  /** 解冻的副本的过期时间 */
+  expiresAt?: Date;
+};
+export type ReadObjectOptions = ConditionalOptions & {
+  /** 只读取部分内容，start 和 end 都是闭区间。不指定 end 则读取到文件末尾。 */
+  range?: { start: number; end?: number };
+  /** 对象使用 SSE-C 加密时，需要指定加密时使用的密钥。其他加密方式读取时不需要指定。 */
+  encryption?: ServerSideEncryption;
+  /**
+   * 按对象的 content-encoding（gzip、deflate、br）解压，返回的 headers 中不再包含 Content-Encoding，
+   * info 仍为存储的对象的信息。不能与 range 同时使用。
+   */
+  decompress?: boolean;
+};
+export type HeadObjectOptions = Pick<ReadObjectOptions, 'encryption'>;
 export type ReadObjectResult = {
   stream?: Readable;
   headers?: Record<string, string>;
+  /** 解析后的对象元信息，其中 size 为整个对象的大小 */
+  info?: ObjectInfo;
+  /** 用户自定义元数据，与 info.metadata 相同 */
+  metadata?: Record<string, string>;
+  /** 范围读取时返回的 Content-Range，例如 `bytes 0-99/1000` */
+  contentRange?: string;
+  /** 整个对象的大小 */
+  totalSize?: number;
+  /** 指定了 ifNoneMatch 或 ifModifiedSince 且对象未修改时为 true，此时没有 stream */
+  notModified?: boolean;
+};
+
+/**
+ * 生成条件读写的标准请求头。
+ * @internal
+ */
+export function getConditionalHeaders(options: ConditionalOptions): OutgoingHttpHeaders {
+  const headers: OutgoingHttpHeaders = {};
+  if (options.ifMatch) headers['If-Match'] = options.ifMatch;
+  if (options.ifNoneMatch) headers['If-None-Match'] = options.ifNoneMatch;
+  if (options.ifModifiedSince) headers['If-Modified-Since'] = gmt(options.ifModifiedSince);
+  if (options.ifUnmodifiedSince) headers['If-Unmodified-Since'] = gmt(options.ifUnmodifiedSince);
+  return headers;
+}
+/**
+ * 按 RFC 7232 的顺序在本地判断前置条件，用于云厂商不支持条件请求的场景。
+ * 写入时 ifNoneMatch 和 ifModifiedSince 不满足也视为 failed。
+ * @internal
+ */
+export function checkPrecondition(
+  info: ObjectInfo | null,
+  options: ConditionalOptions,
+  mode: 'read' | 'write',
+): 'ok' | 'not_modified' | 'failed' {
+  // Last-Modified 只精确到秒
+  const seconds = (d: Date) => Math.floor(d.getTime() / 1000);
+  const etagMatch = (etag: string) => !!info && (etag === '*' || trimETag(etag) === info.etag);
+  if (options.ifMatch) {
+    if (!etagMatch(options.ifMatch)) return 'failed';
+  } else if (options.ifUnmodifiedSince) {
+    if (info && seconds(info.lastModified) > seconds(options.ifUnmodifiedSince)) return 'failed';
+  }
+  const notModified = mode === 'read' ? 'not_modified' : 'failed';
+  if (options.ifNoneMatch) {
+    if (etagMatch(options.ifNoneMatch)) return notModified;
+  } else if (options.ifModifiedSince) {
+    if (!info || seconds(info.lastModified) <= seconds(options.ifModifiedSince)) return notModified;
+  }
+  return 'ok';
+}
+/**
+ * @internal
+ */
+export function hasPrecondition(options: ConditionalOptions): boolean {
+  return [options.ifMatch, options.ifNoneMatch, options.ifModifiedSince, options.ifUnmodifiedSince].some(Boolean);
+}
+
+/**
+ * 生成 readObject 需要的请求头。
+ * @internal
+ */
+export function getReadHeaders(options: ReadObjectOptions): OutgoingHttpHeaders {
+  const headers = getConditionalHeaders(options);
+  if (options.range) {
+    headers.Range = `bytes=${options.range.start}-${options.range.end ?? ''}`;
+  }
+  return headers;
+}
+/**
+ * 将 GET 请求的 _fetch 结果转换为 ReadObjectResult。
+ * @param vendorPrefix 厂商自定义头的前缀，例如 `x-oss-`
+ * @internal
+ */
+export function toReadObjectResult(result: FetchResult | undefined, vendorPrefix: string): ReadObjectResult {
+  const responseHeaders = result?.responseHeaders ?? {};
+  const info = parseObjectInfo(responseHeaders, vendorPrefix);
+  const contentRange = responseHeaders['content-range'];
+  if (contentRange) {
+    // bytes 0-99/1000，总大小未知时为 *
+    const total = Number(contentRange.slice(contentRange.lastIndexOf('/') + 1));
+    if (!Number.isNaN(total)) info.size = total;
+  }
+  return {
+    headers: result?.headers,
+    stream: result?.body,
+    info,
+    metadata: info.metadata,
+    contentRange,
+    totalSize: info.size,
+  };
+}
+
+/**
+ * 各云厂商服务端加密请求头的差异。
+ * @internal
+ */
+export type EncryptionDialect = {
+  vendor: string;
+  /** 厂商自定义头的前缀，例如 `x-oss-` */
+  prefix: string;
+  /** 使用 KMS 加密时 server-side-encryption 头的值，不支持 KMS 时不指定 */
+  kmsAlgorithm?: string;
+  /** 指定 KMS 密钥 id 的请求头 */
+  kmsKeyIdHeader?: string;
+  /** 是否支持用户提供的密钥（SSE-C） */
+  customerKey?: boolean;
+};
+
+/**
+ * 生成写入时服务端加密的请求头，云厂商不支持时抛出错误。
+ * @internal
+ */
+export function getEncryptionHeaders(
+  dialect: EncryptionDialect,
+  encryption: ServerSideEncryption | undefined,
+): OutgoingHttpHeaders {
+  switch (encryption?.type) {
+    case undefined:
+      return {};
+    case 'provider':
+      return { [`${dialect.prefix}server-side-encryption`]: 'AES256' };
+    case 'kms': {
+      if (!dialect.kmsAlgorithm) {
+        throw new Error(`${dialect.vendor} does not support KMS server-side encryption`);
+      }
+      const headers: OutgoingHttpHeaders = { [`${dialect.prefix}server-side-encryption`]: dialect.kmsAlgorithm };
+      if (encryption.keyId && dialect.kmsKeyIdHeader) {
+        headers[dialect.kmsKeyIdHeader] = encryption.keyId;
+      }
+      return headers;
+    }
+    case 'customer':
+      return getCustomerKeyHeaders(dialect, encryption);
+  }
+}
+
+/**
+ * 生成 SSE-C 的请求头，encryption 不是 customer 时返回空对象。
+ * @param copySource 是否为复制时源对象的密钥
+ * @internal
+ */
+export function getCustomerKeyHeaders(
+  dialect: EncryptionDialect,
+  encryption: ServerSideEncryption | undefined,
+  copySource = false,
+): OutgoingHttpHeaders {
+  if (encryption?.type !== 'customer') return {};
+  if (!dialect.customerKey) {
+    throw new Error(`${dialect.vendor} does not support server-side encryption with customer-provided keys`);
+  }
+  const prefix = `${dialect.prefix}${copySource ? 'copy-source-' : ''}server-side-encryption-customer-`;
+  return {
+    [`${prefix}algorithm`]: 'AES256',
+    [`${prefix}key`]: encryption.key.toString('base64'),
+    [`${prefix}key-MD5`]: getCustomerKeyMd5(encryption),
+  };
+}
+
+/**
+ * SSE-C 密钥的 MD5（base64），encryption 不是 customer 时返回 undefined。
+ * @internal
+ */
+export function getCustomerKeyMd5(encryption: ServerSideEncryption | undefined): string | undefined {
+  if (encryption?.type !== 'customer') return undefined;
+  if (encryption.key.length !== 32) {
+    throw new Error(`customer-provided encryption key must be 32 bytes, got ${encryption.key.length}`);
+  }
+  return createHash('md5').update(encryption.key).digest('base64');
+}
+
+/**
+ * 在本地校验读取时提供的 SSE-C 密钥，错误码与 S3 一致，用于 fs 和 memory。
+ * @param customerKeyMd5 写入时密钥的 MD5，对象没有使用 SSE-C 时为 undefined
+ * @internal
+ */
+export function verifyCustomerKey(
+  filename: string,
+  customerKeyMd5: string | undefined,
+  encryption: ServerSideEncryption | undefined,
+): void {
+  const md5 = getCustomerKeyMd5(encryption);
+  if (md5 === customerKeyMd5) return;
+  if (!md5 || !customerKeyMd5) {
+    throw new ObjectStorageError(
+      customerKeyMd5
+        ? `object is encrypted with a customer-provided key: ${filename}`
+        : `object is not encrypted with a customer-provided key: ${filename}`,
+      { status: 400, code: 'InvalidRequest' },
+    );
+  }
+  throw new AccessDeniedError(`customer-provided key does not match: ${filename}`);
+}
+
+/** 各云厂商的存储类型名称（转为大写后）与归一化名称的对应关系 */
+const STORAGE_CLASS_ALIASES: Record<string, StorageClass> = {
+  STANDARD: 'STANDARD',
+  IA: 'IA',
+  STANDARD_IA: 'IA',
+  ARCHIVE: 'ARCHIVE',
+  GLACIER: 'ARCHIVE',
+  COLDARCHIVE: 'COLD_ARCHIVE',
+  COLD_ARCHIVE: 'COLD_ARCHIVE',
+  DEEP_ARCHIVE: 'COLD_ARCHIVE',
 };
 
+/**
+ * 将云厂商返回的存储类型转换为归一化的名称，未知的类型原样返回。
+ * @internal
+ */
+export function normalizeStorageClass(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  return STORAGE_CLASS_ALIASES[value.toUpperCase()] ?? value;
+}
+
+/**
+ * 将归一化的存储类型转换为云厂商的名称，云厂商不支持时抛出错误。
+ * @param names 归一化名称与云厂商名称的对应关系
+ * @internal
+ */
+export function toVendorStorageClass(
+  vendor: string,
+  names: Partial<Record<StorageClass, string>>,
+  storageClass: StorageClass,
+): string {
+  const name = names[storageClass];
+  if (!name) {
+    throw new Error(`${vendor} does not support storage class ${storageClass}`);
+  }
+  return name;
+}
+
+/**
+ * 解析 x-oss-restore 等响应头，例如 `ongoing-request="false", expiry-date="Sun, 16 Apr 2017 08:12:33 GMT"`。
+ * @internal
+ */
+export function parseRestoreHeader(value: string | undefined): RestoreStatus | undefined {
+  if (!value) return undefined;
+  const ongoing = /ongoing-request\s*=\s*"?(\w+)/i.exec(value);
+  if (!ongoing) return undefined;
+  const expiry = /expiry-date\s*=\s*"([^"]+)"/i.exec(value);
+  return {
+    ongoing: ongoing[1].toLowerCase() === 'true',
+    expiresAt: expiry ? new Date(expiry[1]) : undefined,
+  };
+}
+
+/**
+ * 对象是否为归档或冷归档存储，且没有可以读取的解冻副本。
+ * @internal
+ */
+export function needsRestore(info: Pick<ObjectInfo, 'storageClass' | 'restore'>, now = Date.now()): boolean {
+  const storageClass = normalizeStorageClass(info.storageClass);
+  if (storageClass !== 'ARCHIVE' && storageClass !== 'COLD_ARCHIVE') return false;
+  const { restore } = info;
+  return !restore || restore.ongoing || (restore.expiresAt !== undefined && restore.expiresAt.getTime() <= now);
+}
+
+/**
+ * 从 x-oss-server-side-encryption 等响应头解析服务端加密方式。
+ * @internal
+ */
+export function parseEncryptionHeaders(
+  headers: IncomingHttpHeaders,
+  vendorPrefix: string,
+): ServerSideEncryption['type'] | undefined {
+  if (headers[`${vendorPrefix}server-side-encryption-customer-algorithm`]) return 'customer';
+  const value = headers[`${vendorPrefix}server-side-encryption`];
+  if (!value) return undefined;
+  return value === 'AES256' ? 'provider' : 'kms';
+}
+
+/**
+ * 从响应头中解析对象元信息。
+ * @param vendorPrefix 厂商自定义头的前缀，例如 `x-oss-`
+ * @internal
+ */
+export function parseObjectInfo(headers: IncomingHttpHeaders, vendorPrefix: string): ObjectInfo {
+  const metaPrefix = `${vendorPrefix}meta-`;
+  const metadata: Record<string, string> = {};
+  for (const k in headers) {
+    const lk = k.toLowerCase();
+    if (lk.startsWith(metaPrefix)) {
+      metadata[lk.slice(metaPrefix.length)] = decodeMetadataValue(`${headers[k]}`);
+    }
+  }
+  const storageClass = headers[`${vendorPrefix}storage-class`];
+  const restore = headers[`${vendorPrefix}restore`];
+  return {
+    size: Number(headers['content-length'] ?? 0),
+    etag: trimETag(headers.etag),
+    lastModified: new Date(headers['last-modified'] ?? 0),
+    contentType: headers['content-type'],
+    contentEncoding: headers['content-encoding'],
+    storageClass: normalizeStorageClass(storageClass ? `${storageClass}` : undefined),
+    restore: parseRestoreHeader(restore ? `${restore}` : undefined),
+    encryption: parseEncryptionHeaders(headers, vendorPrefix),
+    metadata,
+  };
+}
+
+export type ListObjectsOptions = {
+  /** 只列出以 prefix 开头的对象 */
+  prefix?: string;
+  /** 分组字符，通常为 `/`。指定后，prefix 之后包含该字符的对象会被合并到 commonPrefixes 中。 */
+  delimiter?: string;
+  /** 从该 key 之后（不包含）开始列出 */
+  startAfter?: string;
+  /** 单页最多返回的数量，默认 1000 */
+  maxKeys?: number;
+  /** 上一页返回的 nextContinuationToken，用于翻页 */
+  continuationToken?: string;
+};
+export type ObjectSummary = {
+  key: string;
+  size: number;
+  etag: string;
+  lastModified: Date;
+  storageClass?: string;
+};
+export type ListObjectsResult = {
+  objects: ObjectSummary[];
+  commonPrefixes: string[];
+  /** 是否还有下一页 */
+  isTruncated: boolean;
+  /** 下一页的翻页标记，isTruncated 为 true 时存在 */
+  nextContinuationToken?: string;
+};
+
+type XMLListContent = {
+  Key: string;
+  Size: string;
+  ETag: string;
+  LastModified: string;
+  StorageClass?: string;
+};
+/**
+ * 解析 ListBucketResult 格式的 xml 结果。阿里云、腾讯云和金山云的格式基本一致，
+ * 只是翻页标记的字段名不同（NextContinuationToken 或 NextMarker）。
+ * @internal
+ */
+export function parseListBucketResult(result: FetchResult | undefined): ListObjectsResult {
+  const data = (result?.ListBucketResult ?? {}) as {
+    IsTruncated?: string;
+    NextContinuationToken?: string;
+    NextMarker?: string;
+    Contents?: XMLListContent | XMLListContent[];
+    CommonPrefixes?: { Prefix: string } | { Prefix: string }[];
+  };
+  const objects = toArray(data.Contents).map((c) => ({
+    key: c.Key,
+    size: Number(c.Size),
+    etag: trimETag(c.ETag),
+    lastModified: new Date(c.LastModified),
+    storageClass: normalizeStorageClass(c.StorageClass),
+  }));
+  const commonPrefixes = toArray(data.CommonPrefixes).map((p) => p.Prefix);
+  const isTruncated = data.IsTruncated === 'true';
+  let nextContinuationToken: string | undefined;
+  if (isTruncated) {
+    nextContinuationToken = data.NextContinuationToken ?? data.NextMarker;
+    if (!nextContinuationToken) {
+      // 未指定 delimiter 时 NextMarker 可能不返回，此时使用本页最后一个 key 作为 marker。
+      const lastKey = objects.length ? objects[objects.length - 1].key : '';
+      const lastPrefix = commonPrefixes.length ? commonPrefixes[commonPrefixes.length - 1] : '';
+      nextContinuationToken = lastKey > lastPrefix ? lastKey : lastPrefix;
+    }
+  }
+  return { objects, commonPrefixes, isTruncated, nextContinuationToken };
+}
+
+/**
+ * 在内存中对全部 key 做列举分页，供本地实现使用。结果与云厂商的 ListObjects 语义一致。
+ * @internal
+ */
+export function paginateKeys(
+  keys: string[],
+  options: ListObjectsOptions,
+): { keys: string[]; commonPrefixes: string[]; isTruncated: boolean; nextContinuationToken?: string } {
+  const prefix = options.prefix ?? '';
+  const maxKeys = options.maxKeys ?? 1000;
+  const marker = options.continuationToken ?? options.startAfter ?? '';
+  const result: string[] = [];
+  const commonPrefixes: string[] = [];
+  let lastKey = '';
+  for (const key of keys.filter((k) => k.startsWith(prefix) && k > marker).sort()) {
+    const idx = options.delimiter ? key.indexOf(options.delimiter, prefix.length) : -1;
+    const commonPrefix = idx >= 0 ? key.slice(0, idx + (options.delimiter?.length ?? 0)) : undefined;
+    // 上一页以 commonPrefix 结尾时，跳过该 commonPrefix 下的其它 key
+    if (commonPrefix && (commonPrefix === lastKey || commonPrefix === marker)) continue;
+    if (result.length + commonPrefixes.length >= maxKeys) {
+      return { keys: result, commonPrefixes, isTruncated: true, nextContinuationToken: lastKey };
+    }
+    if (commonPrefix) {
+      commonPrefixes.push(commonPrefix);
+      lastKey = commonPrefix;
+    } else {
+      result.push(key);
+      lastKey = key;
+    }
+  }
+  return { keys: result, commonPrefixes, isTruncated: false };
+}
+
+export type TLSOptions = Pick<
+  HttpsAgentOptions,
+  'ca' | 'cert' | 'key' | 'passphrase' | 'rejectUnauthorized' | 'servername'
+>;
+
 export interface BaseSDKConfig<Region = string> {
   timeout?: number;
-  secretKey: string;
-  accessKey: string;
+  /** 固定的凭证，与 credentials 二选一 */
+  secretKey?: string;
+  accessKey?: string;
+  /** 使用 STS 临时凭证时的 SecurityToken，与 accessKey、secretKey 一起使用 */
+  securityToken?: string;
+  /**
+   * 凭证来源，指定后忽略 accessKey、secretKey 和 securityToken。
+   * 每次请求都会重新获取凭证，用于临时凭证的自动刷新。
+   */
+  credentials?: CredentialProvider;
   bucket: string;
   region: Region;
+  /** 是否使用 https，默认 false */
+  secure?: boolean;
+  /**
+   * 自定义访问域名（不含协议、端口和 bucket），例如内网域名或本地模拟服务的地址。不指定则使用云厂商的默认域名。
+   */
+  endpoint?: string;
+  /** endpoint 是绑定到 bucket 的自定义域名（CNAME），请求时不再拼接 bucket */
+  cname?: boolean;
+  /** 使用 path-style 访问，即 `endpoint/bucket/key`。默认使用 virtual-host 方式，即 `bucket.endpoint/key` */
+  pathStyle?: boolean;
+  /** 自定义端口，不指定则使用 http 或 https 的默认端口 */
+  port?: number;
+  /** https 的 CA、证书等选项，仅在 secure 为 true 时生效 */
+  tls?: TLSOptions;
+  /**
+   * 重试策略，`false` 表示不重试。GET、HEAD、DELETE 等请求总是可以重试，
+   * 上传请求只有在请求体可以重复读取时才会重试，参见 {@link ObjectBody}。
+   */
+  retry?: RetryOptions | false;
 }
+/**
+ * 基类用到的配置。不需要访问云厂商的实现（例如本地文件系统）只需要提供这些字段。
+ */
+export type BaseClientConfig = Omit<
+  BaseSDKConfig,
+  'secretKey' | 'accessKey' | 'securityToken' | 'credentials' | 'bucket' | 'region'
+>;
 export abstract class BaseObjectStorageSDK {
-  private _globalAgent: Agent;
+  /** 单次 copyObject 请求支持的最大对象大小，超过时 moveObject 使用分片复制 */
+  protected _maxCopySize = 5 * 1024 * 1024 * 1024;
+  private _globalAgent: Agent | HttpsAgent;
   private _xmlParser: XMLParser;
+  private _xmlBuilder: XMLBuilder;
   private _timeout: number;
-  constructor(config: BaseSDKConfig) {
+  private _secure: boolean;
+  private _port?: number;
+  private _tls?: TLSOptions;
+  private _endpoint?: string;
+  private _cname: boolean;
+  private _pathStyle: boolean;
+  private _retry: NormalizedRetryOptions;
+  constructor(config: BaseClientConfig) {
     this._timeout = config.timeout ?? 30000;
+    this._secure = config.secure ?? false;
+    this._port = config.port;
+    this._tls = config.tls;
+    this._endpoint = config.endpoint;
+    this._cname = config.cname ?? false;
+    this._pathStyle = config.pathStyle ?? false;
+    this._retry = normalizeRetryOptions(config.retry);
   }
   protected get _XMLParser() {
     if (!this._xmlParser)
@@ -83,19 +954,173 @@ export abstract class BaseObjectStorageSDK {
       });
     return this._xmlParser;
   }
+  protected get _XMLBuilder() {
+    if (!this._xmlBuilder)
+      this._xmlBuilder = new XMLBuilder({
+        renderOpts: { pretty: false },
+      });
+    return this._xmlBuilder;
+  }
+  /**
+   * 生成 CompleteMultipartUpload 的请求体，阿里云、腾讯云和金山云的格式一致。
+   */
+  protected _buildCompleteMultipartBody(parts: MultipartPart[]): Buffer {
+    return Buffer.from(
+      this._XMLBuilder.buildObject({
+        CompleteMultipartUpload: {
+          Part: parts.map((p) => ({ PartNumber: p.partNumber, ETag: `"${p.etag}"` })),
+        },
+      }),
+    );
+  }
+  /**
+   * 生成 PutObjectTagging 的请求体，各云厂商的格式一致。
+   */
+  protected _buildTaggingBody(tags: Record<string, string>): Buffer {
+    return Buffer.from(
+      this._XMLBuilder.buildObject({
+        Tagging: {
+          TagSet: { Tag: Object.keys(tags).map((Key) => ({ Key, Value: tags[Key] })) },
+        },
+      }),
+    );
+  }
+  /**
+   * 生成 RestoreObject 的请求体。
+   * @param jobParameters 指定优先级的元素名，各云厂商不同，例如 S3 为 GlacierJobParameters。不指定时忽略 tier。
+   */
+  protected _buildRestoreBody(options: RestoreObjectOptions, jobParameters?: string): Buffer {
+    const request: Record<string, unknown> = { Days: options.days ?? 1 };
+    if (jobParameters) {
+      request[jobParameters] = { Tier: options.tier ?? 'Standard' };
+    }
+    return Buffer.from(this._XMLBuilder.buildObject({ RestoreRequest: request }));
+  }
+  /**
+   * 生成批量删除的请求体，阿里云、腾讯云和金山云的格式一致。
+   */
+  protected _buildDeleteObjectsBody(keys: string[]): Buffer {
+    return Buffer.from(
+      this._XMLBuilder.buildObject({
+        Delete: {
+          Quiet: false,
+          Object: keys.map((Key) => ({ Key })),
+        },
+      }),
+    );
+  }
   protected get _GlobalAgent() {
-    if (!this._globalAgent)
-      this._globalAgent = new Agent({
+    if (!this._globalAgent) {
+      const agentOptions = {
         keepAlive: true,
         maxSockets: 1000,
         maxFreeSockets: 256,
         timeout: this._timeout,
-      });
+      };
+      this._globalAgent = this._secure ? new HttpsAgent({ ...agentOptions, ...this._tls }) : new Agent(agentOptions);
+    }
     return this._globalAgent;
   }
+  /**
+   * readObject 指定 decompress 时，去掉 decompress 读取后按 content-encoding 解压。
+   */
+  protected async _readDecompressed(filename: string, options: ReadObjectOptions): Promise<ReadObjectResult | null> {
+    if (options.range) {
+      throw new Error('decompress cannot be used with range');
+    }
+    return decompressResult(await this.readObject(filename, { ...options, decompress: false }));
+  }
+  /**
+   * writeObject 指定 compress 时，压缩后去掉 compress 重新调用 writeObject。
+   */
+  protected async _writeCompressed(
+    filename: string,
+    req: ObjectBody,
+    options: WriteObjectOptions,
+  ): Promise<void | string> {
+    const compressed = await compressBody(req, options);
+    await this.writeObject(filename, compressed.body, compressed.options);
+    return compressed.digest();
+  }
+  /**
+   * uploadLarge 指定 compress 时，压缩后去掉 compress 重新调用 uploadLarge。
+   */
+  protected async _uploadCompressed(
+    filename: string,
+    source: Readable,
+    options: UploadLargeOptions,
+  ): Promise<void | string> {
+    const compressed = await compressBody(source, options);
+    await this.uploadLarge(filename, compressed.body as Readable, compressed.options);
+    return compressed.digest();
+  }
+  /**
+   * 通过 headObject 在本地检查写入的前置条件。
+   * 大部分云厂商的 PutObject 不支持条件请求，检查和写入之间不是原子操作。
+   */
+  protected async _checkWritePrecondition(filename: string, options: ConditionalOptions): Promise<void> {
+    if (!hasPrecondition(options)) return;
+    const info = await this.headObject(filename);
+    if (checkPrecondition(info, options, 'write') !== 'ok') {
+      throw new PreconditionFailedError();
+    }
+  }
+  /**
+   * 执行 fn，遇到临时性错误时按重试策略退避后重新执行。fn 每次执行都需要重新签名。
+   * @param retryable 请求是否可以安全地重试，不可以时直接执行一次
+   */
+  protected async _withRetry<T>(fn: () => Promise<T>, retryable: boolean): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn();
+      } catch (ex) {
+        if (!retryable || attempt >= this._retry.maxAttempts || !isRetryableError(ex, this._retry)) {
+          throw ex;
+        }
+        await sleep(getRetryDelay(attempt, ex, this._retry));
+      }
+    }
+  }
+  /**
+   * 判断请求是否可以重试：POST 只在请求体可重复读取时重试，其它方法在没有请求体或请求体可重复读取时重试。
+   */
+  protected _isRetryableRequest(req: SDKRequestOptions): boolean {
+    if (req.method === 'POST' && req.body === undefined) return false;
+    return isReplayableBody(req.body);
+  }
+  /**
+   * 生成完整的访问地址，用于预签名 url。
+   */
+  protected _buildUrl(host: string, path: string, query?: Record<string, string>): string {
+    const qs = stringifyQuery(query);
+    return `${this._secure ? 'https' : 'http'}://${host}${this._port ? `:${this._port}` : ''}${encodeKey(path)}${
+      qs ? `?${qs}` : ''
+    }`;
+  }
+  /**
+   * 请求头中的 Host，使用非默认端口时包含端口号。
+   */
+  protected _getHostHeader(host: string): string {
+    return this._port ? `${host}:${this._port}` : host;
+  }
+  /**
+   * 根据 endpoint、cname 和 pathStyle 配置计算请求的 host 和未编码的 path。
+   * @param defaultEndpoint 云厂商默认的域名（不含 bucket）
+   * @param bucket 出现在域名或路径中的 bucket 名称
+   */
+  protected _resolveAddress(defaultEndpoint: string, bucket: string, key: string): { host: string; path: string } {
+    const endpoint = this._endpoint ?? defaultEndpoint;
+    if (this._cname) {
+      return { host: endpoint, path: `/${key}` };
+    }
+    if (this._pathStyle) {
+      return { host: endpoint, path: `/${bucket}/${key}` };
+    }
+    return { host: `${bucket}.${endpoint}`, path: `/${key}` };
+  }
   protected _pipeReqeuest(
     body: Readable,
-    req: ClientRequest,
+    req: Writable,
     limit: number,
     calcHash: HashType | undefined,
     callback: (err?: Error | null, hash?: string | null) => void,
@@ -157,7 +1182,7 @@ export abstract class BaseObjectStorageSDK {
         // console.log('onData', chunk.length);
         received += chunk.length;
         // console.log(received, limit);
-        if (received > limit) {
+        if (limit > 0 && received > limit) {
           ctx.done(TOO_LARGE_ERR);
           return;
         }
@@ -242,12 +1267,25 @@ export abstract class BaseObjectStorageSDK {
       done = true;
       process.nextTick(() => callback(err, result ?? undefined, hash ?? undefined));
     }
-    const req = request(
+    const body = options.body;
+    let headers = options.headers ?? undefined;
+    if (Buffer.isBuffer(body)) {
+      if (options.limit && options.limit > 0 && body.length > options.limit) {
+        finish(TOO_LARGE_ERR);
+        return;
+      }
+      if (options.calcHash) {
+        hash = createHash(options.calcHash).update(body).digest('hex');
+      }
+      headers = { 'Content-Length': body.length, ...headers };
+    }
+    const req = (this._secure ? httpsRequest : request)(
       {
         method: options.method,
         path: options.path,
         host: options.host,
-        headers: options.headers ?? undefined,
+        port: this._port,
+        headers,
         agent: this._GlobalAgent,
         timeout: this._timeout,
       },
@@ -258,7 +1296,24 @@ export abstract class BaseObjectStorageSDK {
         if (statusCode < 200 || statusCode >= 300) {
           this.getBody(res, contentType, (err, result) => {
             // console.log(result);
-            return finish(new Error(res.statusMessage), err ? undefined : result);
+            const detail = err ? undefined : (result as FetchResult | undefined)?.Error;
+            const retryAfter = Number(res.headers['retry-after']);
+            const requestId = [
+              detail?.RequestId,
+              res.headers['x-oss-request-id'],
+              res.headers['x-cos-request-id'],
+              res.headers['x-kss-request-id'],
+              res.headers['x-amz-request-id'],
+            ].find((v): v is string => typeof v === 'string' && v !== '');
+            return finish(
+              createObjectStorageError(detail?.Message ?? res.statusMessage ?? String(statusCode), {
+                status: statusCode,
+                code: detail?.Code ?? (statusCode === 304 ? 'NotModified' : undefined),
+                requestId,
+                host: options.host,
+                retryAfter: retryAfter >= 0 ? retryAfter * 1000 : undefined,
+              }),
+            );
           });
         } else if (!options.returnStream) {
           this.getBody(res, contentType, (err, result) => {
@@ -271,6 +1326,7 @@ export abstract class BaseObjectStorageSDK {
           contentEncoding && (headers['Content-Encoding'] = contentEncoding);
           finish(null, {
             headers,
+            responseHeaders: res.headers,
             body: res,
           });
         }
@@ -278,31 +1334,50 @@ export abstract class BaseObjectStorageSDK {
     );
     function onReqErr(err: Error): void {
       req.off('error', onReqErr);
-      finish(err);
+      finish(toObjectStorageError(err, options.host));
     }
     req.on('error', onReqErr);
+    req.on('timeout', () => {
+      req.destroy(new TimeoutError('request timeout', { host: options.host }));
+    });
 
-    if (options.body) {
-      this._pipeReqeuest(
-        options.body,
-        req,
-        options.limit ?? 0,
-        options.calcHash,
-        function (err: Error, bodyHash: string) {
-          if (done) return;
-          if (err) {
-            finish(err);
-          } else {
-            hash = bodyHash;
-          }
-        },
-      );
+    if (Buffer.isBuffer(body)) {
+      req.end(body);
+    } else if (body) {
+      let target: Writable = req;
+      if (options.bodyEncoder) {
+        target = options.bodyEncoder;
+        pump(target, req);
+      }
+      this._pipeReqeuest(body, target, options.limit ?? 0, options.calcHash, function (err: Error, bodyHash: string) {
+        if (done) return;
+        if (err) {
+          finish(toObjectStorageError(err, options.host));
+        } else {
+          hash = bodyHash;
+        }
+      });
     } else {
       req.end();
     }
   }
+  protected _fetchAsync(options: FetchOptions): Promise<FetchResponse> {
+    return new Promise((resolve, reject) => {
+      this._fetch(options, (err, result, hash) => {
+        if (!err) return resolve({ result, hash });
+        reject(err);
+      });
+    });
+  }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  readObject(filename: string, options?: ReadObjectOptions): Promise<ReadObjectResult | null> {
+    throw new Error('abstract method');
+  }
+  /**
+   * 获取对象的元信息，对象不存在时返回 null。对象使用 SSE-C 加密时需要指定 encryption。
+   */
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  readObject(filename: string): Promise<ReadObjectResult | null> {
+  headObject(filename: string, options?: HeadObjectOptions): Promise<ObjectInfo | null> {
     throw new Error('abstract method');
   }
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -310,7 +1385,216 @@ export abstract class BaseObjectStorageSDK {
     throw new Error('abstract method');
   }
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  writeObject(filename: string, req: Readable, options?: WriteObjectOptions): Promise<void | string> {
+  writeObject(filename: string, req: ObjectBody, options?: WriteObjectOptions): Promise<void | string> {
+    throw new Error('abstract method');
+  }
+  /**
+   * 批量删除对象，超过单次请求上限时自动分批。单个 key 删除失败不会抛出错误，而是在返回值的 errors 中列出。
+   */
+  async deleteObjects(keys: string[]): Promise<DeleteObjectsResult> {
+    const result: DeleteObjectsResult = { deleted: [], errors: [] };
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      const batch = await this._deleteObjectsBatch(keys.slice(i, i + DELETE_BATCH_SIZE));
+      result.deleted.push(...batch.deleted);
+      result.errors.push(...batch.errors);
+    }
+    return result;
+  }
+  /**
+   * 删除一批（不超过 1000 个）对象。默认逐个调用 deleteObject，支持批量删除接口的 SDK 需要覆盖该方法。
+   */
+  protected async _deleteObjectsBatch(keys: string[]): Promise<DeleteObjectsResult> {
+    const result: DeleteObjectsResult = { deleted: [], errors: [] };
+    for (const key of keys) {
+      try {
+        await this.deleteObject(key);
+        result.deleted.push(key);
+      } catch (ex) {
+        result.errors.push({ key, code: ex?.code ?? 'UnknownError', message: ex?.message ?? '' });
+      }
+    }
+    return result;
+  }
+  /**
+   * 删除 prefix 下的所有对象。
+   * @param options.concurrency 同时进行的批量删除请求数，默认 4
+   */
+  async deletePrefix(prefix: string, options: { concurrency?: number } = EMPTY_OPTS): Promise<DeleteObjectsResult> {
+    const result: DeleteObjectsResult = { deleted: [], errors: [] };
+    const pool = new ConcurrencyPool(options.concurrency ?? 4);
+    const submit = (keys: string[]) =>
+      pool.add(async () => {
+        const batch = await this.deleteObjects(keys);
+        result.deleted.push(...batch.deleted);
+        result.errors.push(...batch.errors);
+      });
+    let keys: string[] = [];
+    for await (const obj of this.iterateObjects({ prefix })) {
+      keys.push(obj.key);
+      if (keys.length >= DELETE_BATCH_SIZE) {
+        await submit(keys);
+        keys = [];
+      }
+    }
+    if (keys.length) {
+      await submit(keys);
+    }
+    await pool.drain();
+    return result;
+  }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  listObjects(options?: ListObjectsOptions): Promise<ListObjectsResult> {
+    throw new Error('abstract method');
+  }
+  /**
+   * 遍历所有符合条件的对象，自动翻页。
+   */
+  async *iterateObjects(
+    options: Omit<ListObjectsOptions, 'continuationToken'> = EMPTY_OPTS,
+  ): AsyncGenerator<ObjectSummary> {
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.listObjects({ ...options, continuationToken });
+      for (const obj of page.objects) {
+        yield obj;
+      }
+      continuationToken = page.isTruncated ? page.nextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+  /**
+   * 设置对象的标签，覆盖已有的全部标签。
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  putObjectTagging(filename: string, tags: Record<string, string>): Promise<void> {
+    throw new Error('abstract method');
+  }
+  /**
+   * 获取对象的标签，对象不存在时抛出 NotFoundError。
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  getObjectTagging(filename: string): Promise<Record<string, string>> {
     throw new Error('abstract method');
   }
+  /**
+   * 删除对象的全部标签。
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  deleteObjectTagging(filename: string): Promise<void> {
+    throw new Error('abstract method');
+  }
+  /**
+   * 解冻归档或冷归档存储的对象，解冻完成前 readObject 抛出 RestoreRequiredError，
+   * 可以通过 headObject 返回的 restore 查看进度。
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  restoreObject(filename: string, options?: RestoreObjectOptions): Promise<void> {
+    throw new Error('abstract method');
+  }
+  /**
+   * 修改已有对象的存储类型，通过复制到自身实现，保留元数据。归档对象需要先解冻。
+   */
+  async setStorageClass(filename: string, storageClass: StorageClass): Promise<void> {
+    const info = await this.headObject(filename);
+    if (!info) {
+      throw new NotFoundError(`object not found: ${filename}`);
+    }
+    if (info.size > this._maxCopySize) {
+      await copyLarge(this, filename, filename, info, { storageClass });
+    } else {
+      await this.copyObject(filename, filename, { storageClass });
+    }
+  }
+  /**
+   * 在服务端复制对象，数据不经过本地。
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  copyObject(src: string, dest: string, options?: CopyObjectOptions): Promise<void> {
+    throw new Error('abstract method');
+  }
+  /**
+   * 移动（重命名）对象，即复制后删除源对象。超过单次复制大小限制的对象使用分片复制。
+   */
+  async moveObject(src: string, dest: string, options: Omit<CopyObjectOptions, 'sourceBucket'> = EMPTY_OPTS) {
+    const info = await this.headObject(src, { encryption: options.sourceEncryption });
+    if (!info) {
+      throw new NotFoundError(`object not found: ${src}`);
+    }
+    if (info.size > this._maxCopySize) {
+      await copyLarge(this, src, dest, info, options);
+    } else {
+      await this.copyObject(src, dest, options);
+    }
+    await this.deleteObject(src);
+  }
+  /**
+   * 生成预签名的访问地址，客户端可以不经过服务端直接下载或上传对象。
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  getSignedUrl(filename: string, options?: SignedUrlOptions): Promise<string> {
+    throw new Error('abstract method');
+  }
+  /**
+   * 生成浏览器表单（POST Object）直传的 policy 和签名，上传大小和 content-type 由云厂商服务端校验。
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  createPostPolicy(options: PostPolicyOptions): Promise<PostPolicyResult> {
+    throw new Error('abstract method');
+  }
+  /**
+   * 初始化分片上传，返回 uploadId。
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  initiateMultipartUpload(filename: string, options?: WriteObjectOptions): Promise<string> {
+    throw new Error('abstract method');
+  }
+  /* eslint-disable @typescript-eslint/no-unused-vars */
+  /**
+   * 上传一个分片，返回分片的 ETag。partNumber 从 1 开始。
+   */
+  uploadPart(
+    filename: string,
+    uploadId: string,
+    partNumber: number,
+    body: Buffer,
+    options?: UploadPartOptions,
+  ): Promise<string> {
+    throw new Error('abstract method');
+  }
+  /**
+   * 从已有对象复制一个分片，返回分片的 ETag。
+   */
+  uploadPartCopy(
+    dest: string,
+    uploadId: string,
+    partNumber: number,
+    source: CopyPartSource,
+    options?: UploadPartOptions,
+  ): Promise<string> {
+    throw new Error('abstract method');
+  }
+  /* eslint-enable @typescript-eslint/no-unused-vars */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  completeMultipartUpload(filename: string, uploadId: string, parts: MultipartPart[]): Promise<void> {
+    throw new Error('abstract method');
+  }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  abortMultipartUpload(filename: string, uploadId: string): Promise<void> {
+    throw new Error('abstract method');
+  }
+  /**
+   * 列出已经上传的全部分片。
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  listParts(filename: string, uploadId: string): Promise<MultipartPart[]> {
+    throw new Error('abstract method');
+  }
+  /**
+   * 使用分片上传大文件，支持并发上传和断点续传。返回值与 writeObject 相同。
+   */
+  uploadLarge(filename: string, source: Readable, options: UploadLargeOptions = EMPTY_OPTS): Promise<void | string> {
+    if (options.compress) {
+      return this._uploadCompressed(filename, source, options);
+    }
+    return uploadLarge(this, filename, source, options);
+  }
 }
@@ -0,0 +1,121 @@
+import type { Hash } from 'crypto';
+import { createHash } from 'crypto';
+import { Readable, Transform } from 'stream';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import type { CompressOptions, ContentEncoding, ObjectBody, ReadObjectResult, WriteObjectOptions } from './common';
+import { TOO_LARGE_ERR } from './errors';
+import { isReplayableBody, openBody, pipeThrough } from './util';
+
+const compressAsync = {
+  gzip: promisify<zlib.InputType, zlib.ZlibOptions, Buffer>(zlib.gzip),
+  deflate: promisify<zlib.InputType, zlib.ZlibOptions, Buffer>(zlib.deflate),
+  br: promisify<zlib.InputType, zlib.BrotliOptions, Buffer>(zlib.brotliCompress),
+};
+
+function getZlibOptions(encoding: ContentEncoding, level: number | undefined): zlib.ZlibOptions | zlib.BrotliOptions {
+  if (level === undefined) return {};
+  return encoding === 'br' ? { params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level } } : { level };
+}
+
+function createCompressStream(encoding: ContentEncoding, level: number | undefined): Transform {
+  switch (encoding) {
+    case 'gzip':
+      return zlib.createGzip(getZlibOptions(encoding, level));
+    case 'deflate':
+      return zlib.createDeflate(getZlibOptions(encoding, level));
+    case 'br':
+      return zlib.createBrotliCompress(getZlibOptions(encoding, level));
+  }
+}
+
+/**
+ * 根据 content-encoding 创建解压流，不支持的编码返回 undefined。
+ */
+function createDecompressStream(contentEncoding: string): Transform | undefined {
+  switch (contentEncoding.trim().toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return zlib.createGunzip();
+    case 'deflate':
+      return zlib.createInflate();
+    case 'br':
+      return zlib.createBrotliDecompress();
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 检查压缩前的大小并计算哈希。
+ */
+function createMeterStream(limit: number, hash?: Hash): Transform {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (limit > 0 && received > limit) {
+        callback(TOO_LARGE_ERR);
+        return;
+      }
+      hash?.update(chunk);
+      callback(null, chunk);
+    },
+  });
+}
+
+/**
+ * 压缩请求体，返回压缩后的请求体和去掉 compress 的写入参数。
+ * 可以重复读取的请求体压缩后仍可以重复读取，重试时重新压缩，哈希以最后一次为准。
+ * @internal
+ */
+export async function compressBody<T extends WriteObjectOptions>(
+  req: ObjectBody,
+  options: T,
+): Promise<{ body: ObjectBody; options: T; digest(): string | undefined }> {
+  const { level, limitOn = 'original' }: CompressOptions = typeof options.compress === 'object' ? options.compress : {};
+  const encoding = options.contentEncoding ?? 'gzip';
+  const limit = limitOn === 'original' ? options.limit ?? 0 : 0;
+  const writeOptions: T = {
+    ...options,
+    compress: undefined,
+    contentEncoding: encoding,
+    limit: limitOn === 'compressed' ? options.limit : undefined,
+    calcHash: undefined,
+  };
+  if (Buffer.isBuffer(req)) {
+    if (limit > 0 && req.length > limit) {
+      throw TOO_LARGE_ERR;
+    }
+    const hash = options.calcHash ? createHash(options.calcHash).update(req).digest('hex') : undefined;
+    const body = await compressAsync[encoding](req, getZlibOptions(encoding, level));
+    return { body, options: writeOptions, digest: () => hash };
+  }
+  let hash: Hash | undefined;
+  const compress = (): Readable => {
+    hash = options.calcHash ? createHash(options.calcHash) : undefined;
+    const body = openBody(req);
+    const source = Buffer.isBuffer(body) ? Readable.from([body]) : body;
+    return pipeThrough(pipeThrough(source, createMeterStream(limit, hash)), createCompressStream(encoding, level));
+  };
+  return {
+    body: isReplayableBody(req) ? compress : compress(),
+    options: writeOptions,
+    digest: () => hash?.digest('hex'),
+  };
+}
+
+/**
+ * 按 content-encoding 解压 readObject 的结果，没有压缩或编码不支持时原样返回。
+ * @internal
+ */
+export function decompressResult(result: ReadObjectResult | null): ReadObjectResult | null {
+  const contentEncoding = result?.info?.contentEncoding;
+  const decompress = contentEncoding ? createDecompressStream(contentEncoding) : undefined;
+  if (!result?.stream || !decompress) return result;
+  const headers: Record<string, string> = {};
+  for (const k in result.headers) {
+    if (k.toLowerCase() !== 'content-encoding') headers[k] = result.headers[k];
+  }
+  return { ...result, headers, stream: pipeThrough(result.stream, decompress) };
+}
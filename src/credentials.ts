@@ -0,0 +1,224 @@
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
+import path from 'path';
+
+/**
+ * 访问云厂商使用的凭证。
+ */
+export type Credentials = {
+  accessKey: string;
+  secretKey: string;
+  /** STS 临时凭证的 SecurityToken */
+  securityToken?: string;
+  /** 过期时间，不指定表示长期有效 */
+  expiration?: Date;
+};
+
+/**
+ * 凭证的来源。每次签名前都会调用 getCredentials，实现需要自行缓存。
+ */
+export interface CredentialProvider {
+  getCredentials(): Promise<Credentials>;
+}
+
+/**
+ * 固定的凭证。
+ */
+export class StaticCredentialProvider implements CredentialProvider {
+  private _credentials: Credentials;
+  constructor(credentials: Credentials) {
+    this._credentials = credentials;
+  }
+  async getCredentials(): Promise<Credentials> {
+    return this._credentials;
+  }
+}
+
+export type EnvCredentialProviderOptions = {
+  /** AccessKey 的环境变量名，默认为 AWS_ACCESS_KEY_ID */
+  accessKey?: string;
+  /** SecretKey 的环境变量名，默认为 AWS_SECRET_ACCESS_KEY */
+  secretKey?: string;
+  /** SecurityToken 的环境变量名，默认为 AWS_SESSION_TOKEN，不存在时忽略 */
+  securityToken?: string;
+};
+
+/**
+ * 从环境变量中读取凭证，每次调用都重新读取。
+ */
+export class EnvCredentialProvider implements CredentialProvider {
+  private _names: Required<EnvCredentialProviderOptions>;
+  constructor(options: EnvCredentialProviderOptions = {}) {
+    this._names = {
+      accessKey: options.accessKey ?? 'AWS_ACCESS_KEY_ID',
+      secretKey: options.secretKey ?? 'AWS_SECRET_ACCESS_KEY',
+      securityToken: options.securityToken ?? 'AWS_SESSION_TOKEN',
+    };
+  }
+  async getCredentials(): Promise<Credentials> {
+    const { accessKey, secretKey, securityToken } = this._names;
+    const credentials: Credentials = {
+      accessKey: process.env[accessKey] ?? '',
+      secretKey: process.env[secretKey] ?? '',
+    };
+    if (process.env[securityToken]) {
+      credentials.securityToken = process.env[securityToken];
+    }
+    if (!credentials.accessKey || !credentials.secretKey) {
+      throw new Error(`environment variable ${accessKey} or ${secretKey} is not set`);
+    }
+    return credentials;
+  }
+}
+
+export type RefreshOptions = {
+  /** 在过期前多久开始刷新，以毫秒计数，默认 5 分钟 */
+  refreshBefore?: number;
+  /** 凭证加载后最多缓存多久，以毫秒计数，默认不限制，只根据 expiration 刷新 */
+  maxAge?: number;
+};
+
+/**
+ * 缓存凭证，并在过期前自动刷新的基类。
+ * 凭证即将过期但仍然有效时，返回缓存的凭证并在后台刷新；已经过期时等待刷新完成。
+ */
+export abstract class RefreshingCredentialProvider implements CredentialProvider {
+  private _refreshBefore: number;
+  private _maxAge: number;
+  private _cached?: { credentials: Credentials; staleAt: number };
+  private _pending?: Promise<Credentials>;
+  constructor(options: RefreshOptions = {}) {
+    this._refreshBefore = options.refreshBefore ?? 5 * 60 * 1000;
+    this._maxAge = options.maxAge ?? Infinity;
+  }
+  /**
+   * 加载新的凭证。
+   */
+  protected _load(): Promise<Credentials> {
+    throw new Error('abstract method');
+  }
+  async getCredentials(): Promise<Credentials> {
+    const now = Date.now();
+    if (this._cached && now < this._cached.staleAt) {
+      return this._cached.credentials;
+    }
+    const expiration = this._cached?.credentials.expiration;
+    if (this._cached && (!expiration || expiration.getTime() > now)) {
+      // 刷新失败时继续使用仍然有效的凭证，下次调用时再重试
+      this.refresh().catch(() => undefined);
+      return this._cached.credentials;
+    }
+    return this.refresh();
+  }
+  /**
+   * 立即重新加载凭证。同一时间只会有一个加载请求，并发的调用共享同一个结果。
+   */
+  refresh(): Promise<Credentials> {
+    this._pending ??= this._load().then(
+      (credentials) => {
+        const loadedAt = Date.now();
+        const expiresAt = credentials.expiration ? credentials.expiration.getTime() - this._refreshBefore : Infinity;
+        this._cached = { credentials, staleAt: Math.min(expiresAt, loadedAt + this._maxAge) };
+        this._pending = undefined;
+        return credentials;
+      },
+      (err) => {
+        this._pending = undefined;
+        throw err;
+      },
+    );
+    return this._pending;
+  }
+}
+
+/**
+ * 通过回调获取凭证，例如调用 STS AssumeRole 获取临时凭证。回调返回的凭证需要包含 expiration。
+ */
+export class CallbackCredentialProvider extends RefreshingCredentialProvider {
+  private _callback: () => Promise<Credentials>;
+  constructor(callback: () => Promise<Credentials>, options: RefreshOptions = {}) {
+    super(options);
+    this._callback = callback;
+  }
+  protected _load(): Promise<Credentials> {
+    return this._callback();
+  }
+}
+
+export type FileCredentialProviderOptions = RefreshOptions & {
+  /** 凭证文件的路径，默认为 ~/.aws/credentials */
+  path?: string;
+  /** 使用的 profile，默认为 default */
+  profile?: string;
+};
+
+/**
+ * 从 ini 格式的共享凭证文件中读取凭证，字段名兼容 aws_access_key_id、access_key_id 等写法。
+ * 默认每 5 分钟重新读取一次文件，以便在文件更新后使用新的凭证。
+ */
+export class FileCredentialProvider extends RefreshingCredentialProvider {
+  private _path: string;
+  private _profile: string;
+  constructor(options: FileCredentialProviderOptions = {}) {
+    super({ maxAge: 5 * 60 * 1000, ...options });
+    this._path = options.path ?? path.join(homedir(), '.aws', 'credentials');
+    this._profile = options.profile ?? 'default';
+  }
+  protected async _load(): Promise<Credentials> {
+    const profile = parseIni(await readFile(this._path, 'utf8'))[this._profile];
+    const get = (...names: string[]) => names.map((n) => profile?.[n]).find(Boolean);
+    const accessKey = get('aws_access_key_id', 'access_key_id', 'access_key');
+    const secretKey = get('aws_secret_access_key', 'secret_access_key', 'secret_key');
+    if (!accessKey || !secretKey) {
+      throw new Error(`credentials of profile ${this._profile} not found in ${this._path}`);
+    }
+    return {
+      accessKey,
+      secretKey,
+      securityToken: get('aws_session_token', 'session_token', 'security_token'),
+    };
+  }
+}
+
+/**
+ * 解析 ini 文件，返回 section => key => value。section 名称中的 `profile ` 前缀会被去掉。
+ */
+function parseIni(content: string): Record<string, Record<string, string>> {
+  const sections: Record<string, Record<string, string>> = {};
+  let current: Record<string, string> | undefined;
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+    const section = /^\[\s*(?:profile\s+)?([^\]]+?)\s*\]$/.exec(line);
+    if (section) {
+      current = sections[section[1]] ??= {};
+      continue;
+    }
+    const i = line.indexOf('=');
+    if (current && i > 0) {
+      current[line.slice(0, i).trim().toLowerCase()] = line.slice(i + 1).trim();
+    }
+  }
+  return sections;
+}
+
+/**
+ * 根据配置创建凭证来源：优先使用 credentials，否则使用固定的 accessKey、secretKey 和 securityToken。
+ * @internal
+ */
+export function resolveCredentialProvider(config: {
+  accessKey?: string;
+  secretKey?: string;
+  securityToken?: string;
+  credentials?: CredentialProvider;
+}): CredentialProvider {
+  if (config.credentials) return config.credentials;
+  if (!config.accessKey || !config.secretKey) {
+    throw new Error('accessKey and secretKey, or credentials, are required');
+  }
+  return new StaticCredentialProvider({
+    accessKey: config.accessKey,
+    secretKey: config.secretKey,
+    securityToken: config.securityToken,
+  });
+}
@@ -0,0 +1,443 @@
+import type { Hash } from 'crypto';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { Transform } from 'stream';
+import type {
+  CopyObjectOptions,
+  CopyPartSource,
+  DeleteObjectsResult,
+  HeadObjectOptions,
+  ListObjectsOptions,
+  ListObjectsResult,
+  MultipartPart,
+  ObjectBody,
+  ObjectInfo,
+  PostPolicyOptions,
+  PostPolicyResult,
+  ReadObjectOptions,
+  ReadObjectResult,
+  RestoreObjectOptions,
+  RetryOptions,
+  SignedUrlOptions,
+  StorageClass,
+  UploadLargeOptions,
+  WriteObjectOptions,
+} from './common';
+import { BaseObjectStorageSDK, EMPTY_OPTS, Readable } from './common';
+import { DecryptionError, NotFoundError, ObjectStorageError, TOO_LARGE_ERR } from './errors';
+import { isReplayableBody, openBody, pipeThrough } from './util';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const BLOCK_SIZE = 16;
+
+/** 加密信息保存在用户元数据中的 key */
+const META_ALGORITHM = 'cse-algorithm';
+const META_KEY = 'cse-key';
+const META_KEY_ID = 'cse-key-id';
+const META_IV = 'cse-iv';
+const ALGORITHM_NAME = 'AES-256-GCM';
+/** 响应头中的加密信息，例如 x-oss-meta-cse-key，minio 返回的 key 不含前缀 */
+const ENCRYPTION_HEADER_RE = /(^|-meta-)cse-/;
+
+/**
+ * 加密数据密钥的主密钥来源，例如云厂商的 KMS。
+ */
+export interface KeyWrappingProvider {
+  /** 使用当前的主密钥加密数据密钥，返回密文和主密钥的 id */
+  wrapKey(dataKey: Buffer): Promise<{ keyId: string; wrappedKey: Buffer }>;
+  /** 使用 keyId 对应的主密钥解密数据密钥 */
+  unwrapKey(wrappedKey: Buffer, keyId: string): Promise<Buffer>;
+}
+
+/**
+ * 使用本地的 32 字节主密钥以 AES-256-GCM 加密数据密钥，用于测试或自行保管主密钥的场景。
+ */
+export class LocalKeyWrappingProvider implements KeyWrappingProvider {
+  private _masterKey: Buffer;
+  private _keyId: string;
+  constructor(masterKey: Buffer, keyId = 'local') {
+    if (masterKey.length !== KEY_LENGTH) {
+      throw new Error(`master key must be ${KEY_LENGTH} bytes, got ${masterKey.length}`);
+    }
+    this._masterKey = masterKey;
+    this._keyId = keyId;
+  }
+  async wrapKey(dataKey: Buffer): Promise<{ keyId: string; wrappedKey: Buffer }> {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(ALGORITHM, this._masterKey, iv);
+    const wrappedKey = Buffer.concat([iv, cipher.update(dataKey), cipher.final(), cipher.getAuthTag()]);
+    return { keyId: this._keyId, wrappedKey };
+  }
+  async unwrapKey(wrappedKey: Buffer, keyId: string): Promise<Buffer> {
+    if (keyId !== this._keyId) {
+      throw new DecryptionError(`unknown master key id "${keyId}"`);
+    }
+    const decipher = createDecipheriv(ALGORITHM, this._masterKey, wrappedKey.subarray(0, IV_LENGTH), {
+      authTagLength: TAG_LENGTH,
+    });
+    try {
+      decipher.setAuthTag(wrappedKey.subarray(wrappedKey.length - TAG_LENGTH));
+      return Buffer.concat([decipher.update(wrappedKey.subarray(IV_LENGTH, -TAG_LENGTH)), decipher.final()]);
+    } catch (ex) {
+      throw new DecryptionError('failed to unwrap data key', { cause: ex });
+    }
+  }
+}
+
+/**
+ * 加密流：检查明文大小并计算明文的哈希，结束时在密文后追加 GCM 的认证标签。
+ */
+function createEncryptStream(key: Buffer, iv: Buffer, limit: number, hash?: Hash): Transform {
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (limit > 0 && received > limit) {
+        callback(TOO_LARGE_ERR);
+        return;
+      }
+      hash?.update(chunk);
+      callback(null, cipher.update(chunk));
+    },
+    flush(callback) {
+      callback(null, Buffer.concat([cipher.final(), cipher.getAuthTag()]));
+    },
+  });
+}
+
+/**
+ * 解密流：最后 16 字节为认证标签，校验失败时以 DecryptionError 结束。
+ */
+function createDecryptStream(key: Buffer, iv: Buffer): Transform {
+  const decipher = createDecipheriv(ALGORITHM, key, iv, { authTagLength: TAG_LENGTH });
+  let tail = Buffer.alloc(0);
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      const data = Buffer.concat([tail, chunk]);
+      const end = Math.max(data.length - TAG_LENGTH, 0);
+      tail = data.subarray(end);
+      callback(null, decipher.update(data.subarray(0, end)));
+    },
+    flush(callback) {
+      try {
+        if (tail.length !== TAG_LENGTH) {
+          throw new Error('ciphertext is truncated');
+        }
+        decipher.setAuthTag(tail);
+        callback(null, decipher.final());
+      } catch (ex) {
+        callback(new DecryptionError('failed to authenticate object content', { cause: ex }));
+      }
+    },
+  });
+}
+
+/**
+ * 范围解密流。GCM 的密文即 CTR 模式的密文，计数器从 IV || 2 开始，
+ * 因此可以从任意 16 字节边界开始使用 AES-CTR 解密，但无法校验认证标签。
+ * @param offset 密文的起始位置，必须是 16 的倍数
+ * @param skip 解密后需要跳过的字节数
+ * @param length 输出的明文长度
+ */
+function createRangeDecryptStream(key: Buffer, iv: Buffer, offset: number, skip: number, length: number): Transform {
+  const counter = Buffer.alloc(BLOCK_SIZE);
+  iv.copy(counter);
+  counter.writeUInt32BE(offset / BLOCK_SIZE + 2, IV_LENGTH);
+  const decipher = createDecipheriv('aes-256-ctr', key, counter);
+  let remaining = length;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      let plain = decipher.update(chunk);
+      if (skip > 0) {
+        const n = Math.min(skip, plain.length);
+        plain = plain.subarray(n);
+        skip -= n;
+      }
+      plain = plain.subarray(0, remaining);
+      remaining -= plain.length;
+      callback(null, plain);
+    },
+  });
+}
+
+function isEncrypted(metadata: Record<string, string>): boolean {
+  return metadata[META_ALGORITHM] === ALGORITHM_NAME && !!metadata[META_KEY] && !!metadata[META_IV];
+}
+
+/**
+ * 去掉加密信息，size 转换为明文大小。没有加密的对象原样返回。
+ */
+function toPlainInfo(info: ObjectInfo): ObjectInfo {
+  if (!isEncrypted(info.metadata)) return info;
+  const metadata: Record<string, string> = {};
+  for (const k in info.metadata) {
+    if (!k.startsWith('cse-')) metadata[k] = info.metadata[k];
+  }
+  return { ...info, size: info.size - TAG_LENGTH, metadata };
+}
+
+function toPlainHeaders(headers: Record<string, string> | undefined): Record<string, string> | undefined {
+  if (!headers) return headers;
+  const plain: Record<string, string> = {};
+  for (const k in headers) {
+    const lk = k.toLowerCase();
+    if (lk === 'content-length' || lk === 'content-range' || ENCRYPTION_HEADER_RE.test(lk)) continue;
+    plain[k] = headers[k];
+  }
+  return plain;
+}
+
+export type EncryptedObjectStorageConfig = {
+  /** 加密数据密钥的主密钥来源 */
+  keyProvider: KeyWrappingProvider;
+  /**
+   * 可以重复读取的请求体写入失败时的重试策略，每次重试重新生成数据密钥，实际的 SDK 不再重试这些写入。
+   * 默认与 SDK 的默认策略相同，`false` 表示不重试。
+   */
+  retry?: RetryOptions | false;
+};
+
+/**
+ * 客户端加密，云厂商只能看到密文。每次写入随机生成数据密钥，使用 AES-256-GCM 流式加密，
+ * 数据密钥经 keyProvider 加密后与 IV 一起保存在对象的用户元数据中（cse- 前缀），读取时自动去掉。
+ * limit 和 calcHash 针对明文计算。
+ *
+ * 限制：
+ * - 流式读取时，明文在认证标签校验之前输出，校验失败时 stream 以 DecryptionError 结束；范围读取不校验认证标签
+ * - listObjects 返回的 size 为密文大小，比明文多 16 字节
+ * - 不支持预签名 url、表单直传和手动分片上传，uploadLarge 不支持断点续传
+ */
+export class EncryptedObjectStorage extends BaseObjectStorageSDK {
+  private _sdk: BaseObjectStorageSDK;
+  private _keyProvider: KeyWrappingProvider;
+  /**
+   * @param sdk 实际存储密文的 SDK，除可以重复读取的请求体的写入外，重试等配置由它负责
+   */
+  constructor(sdk: BaseObjectStorageSDK, config: EncryptedObjectStorageConfig) {
+    super({ retry: config.retry });
+    this._sdk = sdk;
+    this._keyProvider = config.keyProvider;
+  }
+
+  private async _createDataKey(): Promise<{ key: Buffer; iv: Buffer; metadata: Record<string, string> }> {
+    const key = randomBytes(KEY_LENGTH);
+    const iv = randomBytes(IV_LENGTH);
+    const { keyId, wrappedKey } = await this._keyProvider.wrapKey(key);
+    return {
+      key,
+      iv,
+      metadata: {
+        [META_ALGORITHM]: ALGORITHM_NAME,
+        [META_KEY]: wrappedKey.toString('base64'),
+        [META_KEY_ID]: keyId,
+        [META_IV]: iv.toString('base64'),
+      },
+    };
+  }
+  private async _getDataKey(filename: string, metadata: Record<string, string>): Promise<{ key: Buffer; iv: Buffer }> {
+    if (!isEncrypted(metadata)) {
+      throw new DecryptionError(`object is not encrypted: ${filename}`, { code: 'NotEncrypted' });
+    }
+    const key = await this._keyProvider.unwrapKey(Buffer.from(metadata[META_KEY], 'base64'), metadata[META_KEY_ID]);
+    return { key, iv: Buffer.from(metadata[META_IV], 'base64') };
+  }
+  /**
+   * limit 和 calcHash 在本地针对明文处理，不再传给实际的 SDK。
+   */
+  private _getWriteOptions<T extends WriteObjectOptions>(options: T, metadata: Record<string, string>): T {
+    return { ...options, limit: undefined, calcHash: undefined, metadata: { ...options.metadata, ...metadata } };
+  }
+  /**
+   * metadataDirective 为 REPLACE 时，从源对象复制加密信息，否则目标对象无法解密。
+   */
+  private async _getCopyOptions<T extends CopyObjectOptions>(src: string, options: T): Promise<T> {
+    if (options.metadataDirective !== 'REPLACE') return options;
+    if (options.sourceBucket) {
+      throw new Error('EncryptedObjectStorage does not support REPLACE with sourceBucket');
+    }
+    const info = await this._sdk.headObject(src, { encryption: options.sourceEncryption });
+    if (!info) {
+      throw new NotFoundError(`object not found: ${src}`);
+    }
+    const metadata: Record<string, string> = { ...options.metadata };
+    for (const k of [META_ALGORITHM, META_KEY, META_KEY_ID, META_IV]) {
+      if (info.metadata[k] !== undefined) metadata[k] = info.metadata[k];
+    }
+    return { ...options, metadata };
+  }
+
+  async readObject(filename: string, options: ReadObjectOptions = EMPTY_OPTS): Promise<ReadObjectResult | null> {
+    if (options.decompress) {
+      return this._readDecompressed(filename, options);
+    }
+    const { range } = options;
+    // 范围读取从 16 字节边界开始
+    const offset = range ? range.start - (range.start % BLOCK_SIZE) : 0;
+    const result = await this._sdk.readObject(
+      filename,
+      range ? { ...options, range: { start: offset, end: range.end } } : options,
+    );
+    if (!result?.stream || !result.info) return result;
+    const { stream } = result;
+    const { key, iv } = await this._getDataKey(filename, result.info.metadata).catch((ex) => {
+      stream.destroy();
+      throw ex;
+    });
+    const info = toPlainInfo(result.info);
+    const headers = toPlainHeaders(result.headers);
+    if (range) {
+      const end = Math.min(range.end ?? info.size - 1, info.size - 1);
+      if (range.start > end) {
+        stream.destroy();
+        throw new ObjectStorageError('invalid range', { status: 416, code: 'InvalidRange' });
+      }
+      return {
+        headers,
+        stream: pipeThrough(
+          stream,
+          createRangeDecryptStream(key, iv, offset, range.start - offset, end - range.start + 1),
+        ),
+        info,
+        metadata: info.metadata,
+        contentRange: `bytes ${range.start}-${end}/${info.size}`,
+        totalSize: info.size,
+      };
+    }
+    return {
+      headers,
+      stream: pipeThrough(stream, createDecryptStream(key, iv)),
+      info,
+      metadata: info.metadata,
+      totalSize: info.size,
+    };
+  }
+  async headObject(filename: string, options?: HeadObjectOptions): Promise<ObjectInfo | null> {
+    const info = await this._sdk.headObject(filename, options);
+    return info && toPlainInfo(info);
+  }
+  async writeObject(
+    filename: string,
+    req: ObjectBody,
+    options: WriteObjectOptions = EMPTY_OPTS,
+  ): Promise<void | string> {
+    if (options.compress) {
+      return this._writeCompressed(filename, req, options);
+    }
+    const limit = options.limit ?? 0;
+    if (Buffer.isBuffer(req)) {
+      // Buffer 直接加密为 Buffer，实际的 SDK 仍然可以计算 Content-Length 和请求体的签名，重试时密文不变
+      if (limit > 0 && req.length > limit) {
+        throw TOO_LARGE_ERR;
+      }
+      const { key, iv, metadata } = await this._createDataKey();
+      const cipher = createCipheriv(ALGORITHM, key, iv);
+      await this._sdk.writeObject(
+        filename,
+        Buffer.concat([cipher.update(req), cipher.final(), cipher.getAuthTag()]),
+        this._getWriteOptions(options, metadata),
+      );
+      return options.calcHash ? createHash(options.calcHash).update(req).digest('hex') : undefined;
+    }
+    // 可以重复读取的请求体由这里重试：每次重新生成数据密钥和 IV，避免同一个 IV 加密不同的明文，
+    // 保存的元数据与最后一次成功的写入一致，哈希也以最后一次为准
+    return this._withRetry(async () => {
+      const { key, iv, metadata } = await this._createDataKey();
+      const hash = options.calcHash ? createHash(options.calcHash) : undefined;
+      const body = openBody(req);
+      const source = Buffer.isBuffer(body) ? Readable.from([body]) : body;
+      const encrypted = pipeThrough(source, createEncryptStream(key, iv, limit, hash));
+      try {
+        await this._sdk.writeObject(filename, encrypted, this._getWriteOptions(options, metadata));
+      } catch (ex) {
+        encrypted.destroy();
+        throw ex;
+      }
+      return hash?.digest('hex');
+    }, isReplayableBody(req));
+  }
+  async uploadLarge(filename: string, source: Readable, options: UploadLargeOptions = EMPTY_OPTS) {
+    if (options.compress) {
+      return this._uploadCompressed(filename, source, options);
+    }
+    if (options.checkpoint ?? options.onCheckpoint) {
+      throw new Error('EncryptedObjectStorage does not support resumable uploadLarge');
+    }
+    const { key, iv, metadata } = await this._createDataKey();
+    const hash = options.calcHash ? createHash(options.calcHash) : undefined;
+    const encrypted = pipeThrough(source, createEncryptStream(key, iv, options.limit ?? 0, hash));
+    await this._sdk.uploadLarge(filename, encrypted, this._getWriteOptions(options, metadata));
+    return hash?.digest('hex');
+  }
+  deleteObject(filename: string): Promise<void> {
+    return this._sdk.deleteObject(filename);
+  }
+  deleteObjects(keys: string[]): Promise<DeleteObjectsResult> {
+    return this._sdk.deleteObjects(keys);
+  }
+  /**
+   * 返回的 size 为密文大小。
+   */
+  listObjects(options?: ListObjectsOptions): Promise<ListObjectsResult> {
+    return this._sdk.listObjects(options);
+  }
+  putObjectTagging(filename: string, tags: Record<string, string>): Promise<void> {
+    return this._sdk.putObjectTagging(filename, tags);
+  }
+  getObjectTagging(filename: string): Promise<Record<string, string>> {
+    return this._sdk.getObjectTagging(filename);
+  }
+  deleteObjectTagging(filename: string): Promise<void> {
+    return this._sdk.deleteObjectTagging(filename);
+  }
+  restoreObject(filename: string, options?: RestoreObjectOptions): Promise<void> {
+    return this._sdk.restoreObject(filename, options);
+  }
+  setStorageClass(filename: string, storageClass: StorageClass): Promise<void> {
+    return this._sdk.setStorageClass(filename, storageClass);
+  }
+  async copyObject(src: string, dest: string, options: CopyObjectOptions = EMPTY_OPTS): Promise<void> {
+    await this._sdk.copyObject(src, dest, await this._getCopyOptions(src, options));
+  }
+  async moveObject(src: string, dest: string, options: Omit<CopyObjectOptions, 'sourceBucket'> = EMPTY_OPTS) {
+    await this._sdk.moveObject(src, dest, await this._getCopyOptions(src, options));
+  }
+  /**
+   * 预签名 url 直接访问云厂商，无法加解密。
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async getSignedUrl(filename: string, options?: SignedUrlOptions): Promise<string> {
+    throw new Error('EncryptedObjectStorage does not support getSignedUrl');
+  }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async createPostPolicy(options: PostPolicyOptions): Promise<PostPolicyResult> {
+    throw new Error('EncryptedObjectStorage does not support createPostPolicy');
+  }
+  /**
+   * 分片需要按顺序加密，请使用 uploadLarge。
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async initiateMultipartUpload(filename: string, options?: WriteObjectOptions): Promise<string> {
+    throw new Error('EncryptedObjectStorage does not support multipart upload, use uploadLarge instead');
+  }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async uploadPart(filename: string, uploadId: string, partNumber: number, body: Buffer): Promise<string> {
+    throw new Error('EncryptedObjectStorage does not support multipart upload, use uploadLarge instead');
+  }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async uploadPartCopy(dest: string, uploadId: string, partNumber: number, source: CopyPartSource): Promise<string> {
+    throw new Error('EncryptedObjectStorage does not support multipart upload, use uploadLarge instead');
+  }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async completeMultipartUpload(filename: string, uploadId: string, parts: MultipartPart[]): Promise<void> {
+    throw new Error('EncryptedObjectStorage does not support multipart upload, use uploadLarge instead');
+  }
+  abortMultipartUpload(filename: string, uploadId: string): Promise<void> {
+    return this._sdk.abortMultipartUpload(filename, uploadId);
+  }
+  listParts(filename: string, uploadId: string): Promise<MultipartPart[]> {
+    return this._sdk.listParts(filename, uploadId);
+  }
+}
@@ -0,0 +1,151 @@
+export type ObjectStorageErrorOptions = {
+  /** http 状态码，本地产生的错误（例如超时、超过大小限制）没有该字段 */
+  status?: number;
+  /** 云厂商返回的错误码，例如 NoSuchKey；本地错误为 Aborted、TooLarge 等 */
+  code?: string;
+  requestId?: string;
+  host?: string;
+  /** 服务端建议的重试等待时间，以毫秒计数，来自 Retry-After 响应头 */
+  retryAfter?: number;
+  cause?: unknown;
+};
+
+/**
+ * 所有 SDK 抛出的错误的基类。
+ */
+export class ObjectStorageError extends Error {
+  status?: number;
+  code: string;
+  requestId?: string;
+  host?: string;
+  retryAfter?: number;
+  constructor(message: string, options: ObjectStorageErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.status = options.status;
+    this.code = options.code ?? 'UnknownError';
+    this.requestId = options.requestId;
+    this.host = options.host;
+    this.retryAfter = options.retryAfter;
+  }
+}
+/** 对象或 bucket 不存在 */
+export class NotFoundError extends ObjectStorageError {
+  constructor(message = 'not_found', options: ObjectStorageErrorOptions = {}) {
+    super(message, { ...options, status: options.status ?? 404, code: options.code ?? 'NoSuchKey' });
+  }
+}
+/** 没有权限，包括签名错误 */
+export class AccessDeniedError extends ObjectStorageError {
+  constructor(message = 'access_denied', options: ObjectStorageErrorOptions = {}) {
+    super(message, { ...options, status: options.status ?? 403, code: options.code ?? 'AccessDenied' });
+  }
+}
+/** 条件读写的前置条件不满足 */
+export class PreconditionFailedError extends ObjectStorageError {
+  constructor(message = 'precondition_failed', options: ObjectStorageErrorOptions = {}) {
+    super(message, { ...options, status: options.status ?? 412, code: options.code ?? 'PreconditionFailed' });
+  }
+}
+/** 上传的内容超过了 limit 或服务端的大小限制 */
+export class TooLargeError extends ObjectStorageError {
+  constructor(message = 'too_large', options: ObjectStorageErrorOptions = {}) {
+    super(message, { ...options, code: options.code ?? 'TooLarge' });
+  }
+}
+/** 上传的数据源流被中断 */
+export class AbortedError extends ObjectStorageError {
+  constructor(message = 'aborted', options: ObjectStorageErrorOptions = {}) {
+    super(message, { ...options, code: options.code ?? 'Aborted' });
+  }
+}
+/** 请求或等待写入超时 */
+export class TimeoutError extends ObjectStorageError {
+  constructor(message = 'timeout', options: ObjectStorageErrorOptions = {}) {
+    super(message, { ...options, code: options.code ?? 'Timeout' });
+  }
+}
+/** 请求过于频繁被限流 */
+export class ThrottledError extends ObjectStorageError {
+  constructor(message = 'throttled', options: ObjectStorageErrorOptions = {}) {
+    super(message, { ...options, status: options.status ?? 429, code: options.code ?? 'Throttled' });
+  }
+}
+
+/** 对象为归档或冷归档存储，需要先调用 restoreObject 解冻并等待完成 */
+export class RestoreRequiredError extends ObjectStorageError {
+  constructor(message = 'restore_required', options: ObjectStorageErrorOptions = {}) {
+    super(message, { ...options, status: options.status ?? 403, code: options.code ?? 'InvalidObjectState' });
+  }
+}
+/** 客户端加密的对象解密失败，例如密文被篡改、主密钥不匹配或对象没有加密 */
+export class DecryptionError extends ObjectStorageError {
+  constructor(message = 'decryption_failed', options: ObjectStorageErrorOptions = {}) {
+    super(message, { ...options, code: options.code ?? 'DecryptionFailed' });
+  }
+}
+
+/**
+ * 请求体被中止时 writeObject 抛出的单例，可以使用 `===` 或 `instanceof AbortedError` 判断
+ */
+export const ABORTED_ERR = new AbortedError();
+/**
+ * 请求体超过 limit 时 writeObject 和 uploadLarge 抛出的单例，可以使用 `===` 或 `instanceof TooLargeError` 判断
+ */
+export const TOO_LARGE_ERR = new TooLargeError();
+
+const NOT_FOUND_CODES = new Set(['NoSuchKey', 'NoSuchBucket', 'NotFound', 'NoSuchUpload']);
+const ACCESS_DENIED_CODES = new Set([
+  'AccessDenied',
+  'SignatureDoesNotMatch',
+  'InvalidAccessKeyId',
+  'InvalidSecurity',
+  'InvalidSecurityToken',
+  'SecurityTokenExpired',
+  'InvalidToken',
+  'ExpiredToken',
+  'RequestTimeTooSkewed',
+]);
+const THROTTLED_CODES = new Set(['SlowDown', 'TooManyRequests', 'RequestRateLimitExceeded', 'Throttling']);
+const RESTORE_REQUIRED_CODES = new Set(['InvalidObjectState', 'ObjectNotRestored']);
+const TOO_LARGE_CODES = new Set(['EntityTooLarge', 'InvalidObjectSize']);
+
+/**
+ * 根据 http 状态码和云厂商的错误码创建对应类型的错误。
+ * @internal
+ */
+export function createObjectStorageError(message: string, options: ObjectStorageErrorOptions): ObjectStorageError {
+  const { status, code = '' } = options;
+  if (code === 'PreconditionFailed' || status === 412) {
+    return new PreconditionFailedError(message, options);
+  }
+  if (NOT_FOUND_CODES.has(code) || (status === 404 && !code)) {
+    return new NotFoundError(message, options);
+  }
+  if (RESTORE_REQUIRED_CODES.has(code)) {
+    return new RestoreRequiredError(message, options);
+  }
+  if (ACCESS_DENIED_CODES.has(code) || (status === 403 && !code)) {
+    return new AccessDeniedError(message, options);
+  }
+  if (THROTTLED_CODES.has(code) || status === 429) {
+    return new ThrottledError(message, options);
+  }
+  if (TOO_LARGE_CODES.has(code) || status === 413) {
+    return new TooLargeError(message, options);
+  }
+  return new ObjectStorageError(message, options);
+}
+
+/**
+ * 将网络错误等非 ObjectStorageError 的错误包装为 ObjectStorageError，code 使用系统错误码（例如 ECONNRESET）。
+ * @internal
+ */
+export function toObjectStorageError(err: Error & { code?: string }, host?: string): ObjectStorageError {
+  if (err instanceof ObjectStorageError) {
+    // 单例在多个请求间共享，不记录 host
+    if (err !== ABORTED_ERR && err !== TOO_LARGE_ERR) err.host ??= host;
+    return err;
+  }
+  return new ObjectStorageError(err.message, { code: err.code, host, cause: err });
+}
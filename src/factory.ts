@@ -0,0 +1,263 @@
+import path from 'path';
+import type { BaseObjectStorageSDK } from './common';
+import type { AliyunSDKConfig } from './aliyun';
+import { AliyunObjectStorageSDK } from './aliyun';
+import type { TxyunSDKConfig } from './txyun';
+import { TxyunObjectStorageSDK } from './txyun';
+import type { KsyunSDKConfig } from './ksyun';
+import { KSYUN_REGIONS, KsyunObjectStorageSDK } from './ksyun';
+import type { MinioSDKConfig } from './minio';
+import { MinioObjectStorageSDK } from './minio';
+import type { S3SDKConfig } from './s3';
+import { S3ObjectStorageSDK } from './s3';
+import type { FsSDKConfig } from './fs';
+import { FsObjectStorageSDK } from './fs';
+import type { MemorySDKConfig } from './memory';
+import { MemoryObjectStorageSDK } from './memory';
+
+/**
+ * createObjectStorage 使用的配置，通过 provider 区分云厂商。
+ */
+export type ObjectStorageConfig =
+  | ({ provider: 'aliyun' } & AliyunSDKConfig)
+  | ({ provider: 'txyun' } & TxyunSDKConfig)
+  | ({ provider: 'ksyun' } & KsyunSDKConfig)
+  | ({ provider: 'minio' } & MinioSDKConfig)
+  | ({ provider: 's3' } & S3SDKConfig)
+  | ({ provider: 'fs' } & FsSDKConfig)
+  | ({ provider: 'memory' } & MemorySDKConfig);
+export type ObjectStorageProvider = ObjectStorageConfig['provider'];
+
+/** url 的协议与 provider 的对应关系 */
+const SCHEMES: Record<string, ObjectStorageProvider> = {
+  oss: 'aliyun',
+  cos: 'txyun',
+  ks3: 'ksyun',
+  minio: 'minio',
+  s3: 's3',
+  fs: 'fs',
+  memory: 'memory',
+};
+
+/** 字段的类型，数组表示只能取其中的值 */
+type FieldType = 'string' | 'number' | 'boolean' | readonly string[];
+
+const CLOUD_FIELDS: Record<string, FieldType> = {
+  accessKey: 'string',
+  secretKey: 'string',
+  securityToken: 'string',
+  bucket: 'string',
+  region: 'string',
+  endpoint: 'string',
+  port: 'number',
+  secure: 'boolean',
+  cname: 'boolean',
+  pathStyle: 'boolean',
+  timeout: 'number',
+};
+
+/**
+ * 各 provider 可以通过 url 的 query 参数或环境变量指定的字段。
+ */
+const FIELDS: Record<ObjectStorageProvider, Record<string, FieldType>> = {
+  aliyun: { ...CLOUD_FIELDS, signatureVersion: ['v1', 'v4'] },
+  txyun: { ...CLOUD_FIELDS, appId: 'string' },
+  ksyun: { ...CLOUD_FIELDS, internal: 'boolean' },
+  minio: CLOUD_FIELDS,
+  s3: { ...CLOUD_FIELDS, payloadSigning: ['unsigned', 'streaming'] },
+  fs: { root: 'string', bucket: 'string', timeout: 'number' },
+  memory: { bucket: 'string', latency: 'number', timeout: 'number' },
+};
+
+/** 各 provider 必须指定的字段 */
+const REQUIRED_FIELDS: Record<ObjectStorageProvider, string[]> = {
+  aliyun: ['bucket', 'region'],
+  txyun: ['bucket', 'region', 'appId'],
+  ksyun: ['bucket', 'region'],
+  minio: ['bucket', 'endpoint'],
+  s3: ['bucket', 'region'],
+  fs: ['root', 'bucket'],
+  memory: [],
+};
+
+function parseField(provider: ObjectStorageProvider, name: string, value: string): unknown {
+  const type = FIELDS[provider][name];
+  if (!type) {
+    throw new Error(`unknown option "${name}" for object storage provider ${provider}`);
+  }
+  if (type === 'number') {
+    const n = Number(value);
+    if (!value || !Number.isFinite(n)) {
+      throw new Error(`option "${name}" must be a number, got "${value}"`);
+    }
+    return n;
+  }
+  if (type === 'boolean') {
+    if (value === 'true' || value === '1') return true;
+    if (value === 'false' || value === '0') return false;
+    throw new Error(`option "${name}" must be true or false, got "${value}"`);
+  }
+  if (Array.isArray(type) && !type.includes(value)) {
+    throw new Error(`option "${name}" must be one of ${type.join(', ')}, got "${value}"`);
+  }
+  return value;
+}
+
+function parseProvider(value: string): ObjectStorageProvider {
+  const provider = SCHEMES[value] ?? Object.values(SCHEMES).find((p) => p === value);
+  if (!provider) {
+    const names = new Set([...Object.keys(SCHEMES), ...Object.values(SCHEMES)]);
+    throw new Error(`unknown object storage provider "${value}", expected one of ${[...names].join(', ')}`);
+  }
+  return provider;
+}
+
+/**
+ * 解析 url 形式的配置，用户名和密码为 accessKey 和 secretKey（需要 url 编码），其他字段通过 query 参数指定：
+ * - `oss://ak:sk@bucket.oss-cn-hangzhou?signatureVersion=v4`
+ * - `cos://ak:sk@bucket-1250000000.ap-guangzhou`，bucket 最后一个 `-` 之后为 appId
+ * - `ks3://ak:sk@bucket.GUANGZHOU?internal=true`
+ * - `s3://ak:sk@bucket.us-east-1`
+ * - `minio://ak:sk@localhost:9000/bucket?secure=true`，region 默认为 us-east-1
+ * - `fs:///data/storage/bucket`，最后一级目录为 bucket
+ * - `memory://bucket`
+ *
+ * 只做解析，不校验必填字段，参见 {@link validateObjectStorageConfig}。
+ */
+export function parseObjectStorageUrl(url: string): ObjectStorageConfig {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`invalid object storage url "${url.replace(/\/\/[^@/]*@/, '//***@')}"`);
+  }
+  const provider = parseProvider(parsed.protocol.slice(0, -1));
+  const config: Record<string, unknown> = { provider };
+  if (parsed.username) config.accessKey = decodeURIComponent(parsed.username);
+  if (parsed.password) config.secretKey = decodeURIComponent(parsed.password);
+  const host = decodeURIComponent(parsed.hostname);
+  const pathname = decodeURIComponent(parsed.pathname);
+  switch (provider) {
+    case 'minio':
+      config.endpoint = host;
+      config.region = 'us-east-1';
+      if (parsed.port) config.port = Number(parsed.port);
+      if (pathname.length > 1) config.bucket = pathname.slice(1);
+      break;
+    case 'fs':
+      if (pathname.length > 1) {
+        config.root = path.dirname(pathname);
+        config.bucket = path.basename(pathname);
+      }
+      break;
+    case 'memory':
+      if (host) config.bucket = host;
+      break;
+    default: {
+      // bucket.region
+      const i = host.indexOf('.');
+      if (i > 0) {
+        config.bucket = host.slice(0, i);
+        config.region = host.slice(i + 1);
+      } else if (host) {
+        config.bucket = host;
+      }
+      if (provider === 'txyun' && typeof config.bucket === 'string') {
+        const match = /^(.+)-(\d+)$/.exec(config.bucket);
+        if (match) {
+          config.bucket = match[1];
+          config.appId = match[2];
+        }
+      }
+    }
+  }
+  parsed.searchParams.forEach((value, name) => {
+    config[name] = parseField(provider, name, value);
+  });
+  return config as ObjectStorageConfig;
+}
+
+/**
+ * 从环境变量读取配置。`${prefix}_URL` 为 url 形式的配置，其余字段使用大写下划线形式的环境变量，
+ * 例如 `${prefix}_ACCESS_KEY`、`${prefix}_APP_ID`，会覆盖 url 中的值。
+ * 没有指定 url 时需要通过 `${prefix}_PROVIDER` 指定 provider。
+ * @param prefix 环境变量名的前缀，默认为 OBJECT_STORAGE
+ */
+export function loadObjectStorageConfig(
+  env: Record<string, string | undefined> = process.env,
+  prefix = 'OBJECT_STORAGE',
+): ObjectStorageConfig {
+  const url = env[`${prefix}_URL`];
+  const providerName = env[`${prefix}_PROVIDER`];
+  let config: Record<string, unknown>;
+  if (url) {
+    config = { ...parseObjectStorageUrl(url) };
+    if (providerName && parseProvider(providerName) !== config.provider) {
+      throw new Error(`${prefix}_PROVIDER conflicts with the provider of ${prefix}_URL`);
+    }
+  } else if (providerName) {
+    config = { provider: parseProvider(providerName) };
+  } else {
+    throw new Error(`environment variable ${prefix}_URL or ${prefix}_PROVIDER is not set`);
+  }
+  const provider = config.provider as ObjectStorageProvider;
+  for (const name in FIELDS[provider]) {
+    const value = env[`${prefix}_${name.replace(/[A-Z]/g, (c) => `_${c}`).toUpperCase()}`];
+    if (value !== undefined && value !== '') {
+      config[name] = parseField(provider, name, value);
+    }
+  }
+  if (provider === 'minio') config.region ??= 'us-east-1';
+  return config as ObjectStorageConfig;
+}
+
+/**
+ * 校验配置，缺少必填字段或字段取值不合法时抛出错误。
+ */
+export function validateObjectStorageConfig(config: ObjectStorageConfig): void {
+  const provider = parseProvider(config.provider);
+  const record = config as Record<string, unknown>;
+  const missing = REQUIRED_FIELDS[provider].filter((name) => record[name] === undefined || record[name] === '');
+  if (missing.length) {
+    throw new Error(`object storage provider ${provider} requires ${missing.join(', ')}`);
+  }
+  if (provider === 'fs' || provider === 'memory') return;
+  if (!record.credentials && (!record.accessKey || !record.secretKey)) {
+    throw new Error(`object storage provider ${provider} requires accessKey and secretKey, or credentials`);
+  }
+  if (provider === 'ksyun' && !((record.region as string) in KSYUN_REGIONS)) {
+    throw new Error(
+      `unknown ksyun region "${record.region as string}", expected one of ${Object.keys(KSYUN_REGIONS).join(', ')}`,
+    );
+  }
+}
+
+/**
+ * 根据配置创建对应云厂商的 SDK。
+ * @param config 配置对象或 url（参见 {@link parseObjectStorageUrl}），不指定时从环境变量读取（参见 {@link loadObjectStorageConfig}）
+ */
+export function createObjectStorage(config?: ObjectStorageConfig | string): BaseObjectStorageSDK {
+  const resolved =
+    config === undefined
+      ? loadObjectStorageConfig()
+      : typeof config === 'string'
+        ? parseObjectStorageUrl(config)
+        : config;
+  validateObjectStorageConfig(resolved);
+  switch (resolved.provider) {
+    case 'aliyun':
+      return new AliyunObjectStorageSDK(resolved);
+    case 'txyun':
+      return new TxyunObjectStorageSDK(resolved);
+    case 'ksyun':
+      return new KsyunObjectStorageSDK({ ...resolved, internal: resolved.internal ?? false });
+    case 'minio':
+      return new MinioObjectStorageSDK(resolved);
+    case 's3':
+      return new S3ObjectStorageSDK(resolved);
+    case 'fs':
+      return new FsObjectStorageSDK(resolved);
+    case 'memory':
+      return new MemoryObjectStorageSDK(resolved);
+  }
+}
@@ -0,0 +1,428 @@
+import { createHash, randomUUID } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { copyFile, mkdir, readFile, readdir, rename, rm, rmdir, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type {
+  BaseClientConfig,
+  CopyObjectOptions,
+  HeadObjectOptions,
+  ListObjectsOptions,
+  ListObjectsResult,
+  ObjectBody,
+  ObjectInfo,
+  ReadObjectOptions,
+  ReadObjectResult,
+  RestoreObjectOptions,
+  ServerSideEncryption,
+  StorageClass,
+  UploadLargeOptions,
+  WriteObjectOptions,
+} from './common';
+import {
+  BaseObjectStorageSDK,
+  EMPTY_OPTS,
+  Readable,
+  checkPrecondition,
+  getCustomerKeyMd5,
+  needsRestore,
+  paginateKeys,
+  verifyCustomerKey,
+} from './common';
+import {
+  NotFoundError,
+  ObjectStorageError,
+  PreconditionFailedError,
+  RestoreRequiredError,
+  TOO_LARGE_ERR,
+  toObjectStorageError,
+} from './errors';
+import { getUserMetadata, openBody } from './util';
+
+export type FsSDKConfig = BaseClientConfig & {
+  /** 存放数据的根目录 */
+  root: string;
+  /** bucket 名称，对象存放在 `root/bucket` 目录下 */
+  bucket: string;
+};
+
+/** 元数据存放在 `root/.meta/bucket` 下与对象同名的 json 文件中 */
+const META_DIR = '.meta';
+/** 写入时先写到临时目录，完成后再 rename，保证写入是原子的 */
+const TMP_DIR = '.tmp';
+
+type FsMeta = {
+  etag: string;
+  contentType?: string;
+  contentEncoding?: string;
+  metadata: Record<string, string>;
+  tags?: Record<string, string>;
+  storageClass?: StorageClass;
+  /** 模拟解冻的副本的过期时间，ISO 格式 */
+  restoreExpiresAt?: string;
+  /** 写入时指定的服务端加密方式，本地文件不会加密 */
+  encryption?: ServerSideEncryption['type'];
+  /** 使用 SSE-C 写入时密钥的 MD5 */
+  customerKeyMd5?: string;
+};
+
+/** 一天的毫秒数，用于计算解冻的副本的过期时间 */
+const DAY = 24 * 60 * 60 * 1000;
+
+function isNotFound(ex: { code?: string }): boolean {
+  return ex?.code === 'ENOENT' || ex?.code === 'ENOTDIR';
+}
+
+/**
+ * 使用本地文件系统存储对象，用于本地开发和测试，不需要启动 minio。
+ * 对象的 key 直接映射为文件路径，因此 `a` 和 `a/b` 不能同时存在。
+ */
+export class FsObjectStorageSDK extends BaseObjectStorageSDK {
+  private _config: FsSDKConfig;
+  constructor(config: FsSDKConfig) {
+    super(config);
+    this._config = config;
+  }
+
+  private _resolve(key: string, bucket = this._config.bucket): { file: string; meta: string } {
+    const dir = path.resolve(this._config.root, bucket);
+    const file = path.resolve(dir, key);
+    const relative = path.relative(dir, file);
+    if (!key || key.endsWith('/') || !relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new ObjectStorageError(`invalid object key: ${key}`, { status: 400, code: 'InvalidArgument' });
+    }
+    return { file, meta: path.resolve(this._config.root, META_DIR, bucket, `${relative}.json`) };
+  }
+  private _tmpFile(): string {
+    return path.resolve(this._config.root, TMP_DIR, randomUUID());
+  }
+  /**
+   * 先写临时文件，再 rename 到目标位置。
+   */
+  private async _writeAtomic(file: string, write: (tmp: string) => Promise<void>): Promise<void> {
+    const tmp = this._tmpFile();
+    await mkdir(path.dirname(tmp), { recursive: true });
+    try {
+      await write(tmp);
+      await mkdir(path.dirname(file), { recursive: true });
+      await rename(tmp, file);
+    } catch (ex) {
+      await rm(tmp, { force: true });
+      throw ex;
+    }
+  }
+  private async _writeMeta(file: string, meta: FsMeta): Promise<void> {
+    await this._writeAtomic(file, (tmp) => writeFile(tmp, JSON.stringify(meta)));
+  }
+  /**
+   * 写入对象的数据和元数据。先写数据的临时文件和元数据，最后再 rename 数据文件，
+   * 元数据写入失败时不会替换已有的数据；rename 数据文件失败时恢复原来的元数据。
+   * @param write 写入临时文件并返回元数据
+   */
+  private async _writeObjectFiles(
+    { file, meta }: { file: string; meta: string },
+    write: (tmp: string) => Promise<FsMeta>,
+  ): Promise<void> {
+    const tmp = this._tmpFile();
+    await mkdir(path.dirname(tmp), { recursive: true });
+    try {
+      const fsMeta = await write(tmp);
+      const previous = await readFile(meta).catch(() => null);
+      await this._writeMeta(meta, fsMeta);
+      try {
+        await mkdir(path.dirname(file), { recursive: true });
+        await rename(tmp, file);
+      } catch (ex) {
+        // 数据没有替换，恢复原来的元数据
+        const restore = previous ? this._writeAtomic(meta, (t) => writeFile(t, previous)) : rm(meta, { force: true });
+        await restore.catch(() => undefined);
+        throw ex;
+      }
+    } catch (ex) {
+      await rm(tmp, { force: true });
+      throw ex;
+    }
+  }
+  /**
+   * 删除文件后，逐级删除空的父目录，直到 stop 为止。
+   */
+  private async _removeFile(file: string, stop: string): Promise<void> {
+    await rm(file, { force: true });
+    for (let dir = path.dirname(file); dir.startsWith(stop + path.sep); dir = path.dirname(dir)) {
+      try {
+        await rmdir(dir);
+      } catch (ex) {
+        break;
+      }
+    }
+  }
+
+  async readObject(filename: string, options: ReadObjectOptions = EMPTY_OPTS): Promise<ReadObjectResult | null> {
+    if (options.decompress) {
+      return this._readDecompressed(filename, options);
+    }
+    const found = await this._stat(filename);
+    if (!found) return null;
+    const { info, fsMeta } = found;
+    verifyCustomerKey(filename, fsMeta.customerKeyMd5, options.encryption);
+    if (needsRestore(info)) {
+      throw new RestoreRequiredError(`object is archived: ${filename}`);
+    }
+    const check = checkPrecondition(info, options, 'read');
+    if (check === 'failed') {
+      throw new PreconditionFailedError();
+    }
+    if (check === 'not_modified') {
+      return { notModified: true };
+    }
+    const headers: Record<string, string> = {};
+    info.contentType && (headers['Content-Type'] = info.contentType);
+    info.contentEncoding && (headers['Content-Encoding'] = info.contentEncoding);
+    const { file } = this._resolve(filename);
+    if (options.range) {
+      const { start } = options.range;
+      const end = Math.min(options.range.end ?? info.size - 1, info.size - 1);
+      if (start > end) {
+        throw new ObjectStorageError('invalid range', { status: 416, code: 'InvalidRange' });
+      }
+      return {
+        headers,
+        stream: createReadStream(file, { start, end }),
+        info,
+        metadata: info.metadata,
+        contentRange: `bytes ${start}-${end}/${info.size}`,
+        totalSize: info.size,
+      };
+    }
+    return { headers, stream: createReadStream(file), info, metadata: info.metadata, totalSize: info.size };
+  }
+  /**
+   * 读取对象的信息和元数据文件，对象不存在时返回 null。
+   */
+  private async _stat(filename: string): Promise<{ info: ObjectInfo; fsMeta: FsMeta } | null> {
+    const { file, meta } = this._resolve(filename);
+    try {
+      const st = await stat(file);
+      if (!st.isFile()) return null;
+      // 直接放到目录中的文件没有元数据，使用大小和修改时间生成 etag
+      const fsMeta: FsMeta = await readFile(meta, 'utf8').then(
+        (json) => JSON.parse(json),
+        () => ({ etag: createHash('md5').update(`${st.size}-${st.mtimeMs}`).digest('hex'), metadata: {} }),
+      );
+      const info: ObjectInfo = {
+        size: st.size,
+        etag: fsMeta.etag,
+        lastModified: st.mtime,
+        contentType: fsMeta.contentType,
+        contentEncoding: fsMeta.contentEncoding,
+        ...this._toRestoreInfo(fsMeta),
+        encryption: fsMeta.encryption,
+        metadata: fsMeta.metadata,
+      };
+      return { info, fsMeta };
+    } catch (ex) {
+      if (isNotFound(ex)) return null;
+      throw toObjectStorageError(ex);
+    }
+  }
+  async headObject(filename: string, options: HeadObjectOptions = EMPTY_OPTS): Promise<ObjectInfo | null> {
+    const found = await this._stat(filename);
+    if (!found) return null;
+    verifyCustomerKey(filename, found.fsMeta.customerKeyMd5, options.encryption);
+    return found.info;
+  }
+  async writeObject(
+    filename: string,
+    req: ObjectBody,
+    options: WriteObjectOptions = EMPTY_OPTS,
+  ): Promise<void | string> {
+    if (options.compress) {
+      return this._writeCompressed(filename, req, options);
+    }
+    await this._checkWritePrecondition(filename, options);
+    const customerKeyMd5 = getCustomerKeyMd5(options.encryption);
+    const limit = options.limit ?? 0;
+    const md5 = createHash('md5');
+    const hash = options.calcHash ? createHash(options.calcHash) : null;
+    let received = 0;
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        if (limit > 0 && received > limit) {
+          callback(TOO_LARGE_ERR);
+          return;
+        }
+        md5.update(chunk);
+        hash?.update(chunk);
+        callback(null, chunk);
+      },
+    });
+    try {
+      await this._writeObjectFiles(this._resolve(filename), async (tmp) => {
+        const body = openBody(req);
+        await pipeline(Buffer.isBuffer(body) ? Readable.from([body]) : body, counter, createWriteStream(tmp));
+        return {
+          etag: md5.digest('hex'),
+          contentType: options.contentType ?? options.headers?.['Content-Type'],
+          contentEncoding: options.contentEncoding ?? options.headers?.['Content-Encoding'],
+          metadata: getUserMetadata(options.headers, options.metadata),
+          tags: options.tags,
+          storageClass: options.storageClass,
+          encryption: options.encryption?.type,
+          customerKeyMd5,
+        };
+      });
+    } catch (ex) {
+      throw toObjectStorageError(ex);
+    }
+    return hash?.digest('hex');
+  }
+  /**
+   * 本地文件不需要分片，直接使用 writeObject。
+   */
+  async uploadLarge(filename: string, source: Readable, options: UploadLargeOptions = EMPTY_OPTS) {
+    return this.writeObject(filename, source, options);
+  }
+  async deleteObject(filename: string): Promise<void> {
+    const { file, meta } = this._resolve(filename);
+    try {
+      await this._removeFile(file, path.resolve(this._config.root, this._config.bucket));
+      await this._removeFile(meta, path.resolve(this._config.root, META_DIR, this._config.bucket));
+    } catch (ex) {
+      throw toObjectStorageError(ex);
+    }
+  }
+  async copyObject(src: string, dest: string, options: CopyObjectOptions = EMPTY_OPTS): Promise<void> {
+    const bucket = options.sourceBucket ?? this._config.bucket;
+    const source = this._resolve(src, bucket);
+    const target = this._resolve(dest);
+    const customerKeyMd5 = getCustomerKeyMd5(options.encryption);
+    try {
+      const sourceMeta: FsMeta | null = await readFile(source.meta, 'utf8').then(JSON.parse, () => null);
+      verifyCustomerKey(src, sourceMeta?.customerKeyMd5, options.sourceEncryption);
+      if (sourceMeta && needsRestore(this._toRestoreInfo(sourceMeta))) {
+        throw new RestoreRequiredError(`object is archived: ${src}`);
+      }
+      const getMeta = (etag: string): FsMeta =>
+        options.metadataDirective === 'REPLACE'
+          ? {
+              etag,
+              contentType: options.contentType ?? options.headers?.['Content-Type'],
+              contentEncoding: options.headers?.['Content-Encoding'],
+              metadata: getUserMetadata(options.headers, options.metadata),
+              tags: sourceMeta?.tags,
+              storageClass: options.storageClass ?? sourceMeta?.storageClass,
+              encryption: options.encryption?.type,
+              customerKeyMd5,
+            }
+          : {
+              etag,
+              metadata: {},
+              ...sourceMeta,
+              storageClass: options.storageClass ?? sourceMeta?.storageClass,
+              restoreExpiresAt: undefined,
+              encryption: options.encryption?.type,
+              customerKeyMd5,
+            };
+      const md5 = async (file: string) =>
+        createHash('md5')
+          .update(await readFile(file))
+          .digest('hex');
+      if (source.file !== target.file) {
+        await this._writeObjectFiles(target, async (tmp) => {
+          await copyFile(source.file, tmp);
+          return getMeta(sourceMeta?.etag ?? (await md5(tmp)));
+        });
+      } else {
+        await this._writeMeta(target.meta, getMeta(sourceMeta?.etag ?? (await md5(target.file))));
+      }
+    } catch (ex) {
+      if (isNotFound(ex)) {
+        throw new NotFoundError(`object not found: ${src}`);
+      }
+      throw toObjectStorageError(ex);
+    }
+  }
+  /**
+   * 读取对象的元数据文件，对象不存在时抛出 NotFoundError。
+   */
+  private async _readMeta(filename: string): Promise<FsMeta> {
+    const found = await this._stat(filename);
+    if (!found) {
+      throw new NotFoundError(`object not found: ${filename}`);
+    }
+    return found.fsMeta;
+  }
+  async putObjectTagging(filename: string, tags: Record<string, string>): Promise<void> {
+    const fsMeta = await this._readMeta(filename);
+    await this._writeMeta(this._resolve(filename).meta, { ...fsMeta, tags: { ...tags } });
+  }
+  async getObjectTagging(filename: string): Promise<Record<string, string>> {
+    return { ...(await this._readMeta(filename)).tags };
+  }
+  async deleteObjectTagging(filename: string): Promise<void> {
+    const fsMeta = await this._readMeta(filename);
+    await this._writeMeta(this._resolve(filename).meta, { ...fsMeta, tags: undefined });
+  }
+  private _toRestoreInfo(fsMeta: FsMeta): Pick<ObjectInfo, 'storageClass' | 'restore'> {
+    return {
+      storageClass: fsMeta.storageClass,
+      restore: fsMeta.restoreExpiresAt ? { ongoing: false, expiresAt: new Date(fsMeta.restoreExpiresAt) } : undefined,
+    };
+  }
+  /**
+   * 立即完成解冻，解冻的副本在 days 天后过期。
+   */
+  async restoreObject(filename: string, options: RestoreObjectOptions = EMPTY_OPTS): Promise<void> {
+    const fsMeta = await this._readMeta(filename);
+    if (fsMeta.storageClass !== 'ARCHIVE' && fsMeta.storageClass !== 'COLD_ARCHIVE') {
+      throw new ObjectStorageError(`object is not archived: ${filename}`, {
+        status: 400,
+        code: 'OperationNotSupported',
+      });
+    }
+    const restoreExpiresAt = new Date(Date.now() + (options.days ?? 1) * DAY).toISOString();
+    await this._writeMeta(this._resolve(filename).meta, { ...fsMeta, restoreExpiresAt });
+  }
+  async listObjects(options: ListObjectsOptions = EMPTY_OPTS): Promise<ListObjectsResult> {
+    const dir = path.resolve(this._config.root, this._config.bucket);
+    const keys: string[] = [];
+    const walk = async (current: string): Promise<void> => {
+      const entries = await readdir(current, { withFileTypes: true }).catch((ex) => {
+        if (isNotFound(ex)) return [];
+        throw toObjectStorageError(ex);
+      });
+      for (const entry of entries) {
+        const full = path.join(current, entry.name);
+        if (entry.isDirectory()) {
+          await walk(full);
+        } else if (entry.isFile()) {
+          keys.push(path.relative(dir, full).split(path.sep).join('/'));
+        }
+      }
+    };
+    await walk(dir);
+    const page = paginateKeys(keys, options);
+    const objects = [];
+    for (const key of page.keys) {
+      const info = (await this._stat(key))?.info;
+      // 列举过程中被删除的对象直接跳过
+      if (info) {
+        objects.push({
+          key,
+          size: info.size,
+          etag: info.etag,
+          lastModified: info.lastModified,
+          storageClass: info.storageClass,
+        });
+      }
+    }
+    return {
+      objects,
+      commonPrefixes: page.commonPrefixes,
+      isTruncated: page.isTruncated,
+      nextContinuationToken: page.nextContinuationToken,
+    };
+  }
+}
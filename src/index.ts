@@ -1,5 +1,12 @@
 export * from './common';
+export * from './errors';
+export * from './credentials';
 export * from './aliyun';
 export * from './txyun';
 export * from './ksyun';
 export * from './minio';
+export * from './s3';
+export * from './fs';
+export * from './memory';
+export * from './factory';
+export * from './encryption';
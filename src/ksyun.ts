@@ -1,35 +1,122 @@
 import crypto from 'crypto';
 import type { OutgoingHttpHeaders } from 'http';
 import type {
-  Readable,
-  FetchResult,
-  FetchOptions,
+  ObjectBody,
+  FetchResponse,
   ReadObjectResult,
+  ReadObjectOptions,
   WriteObjectOptions,
   BaseSDKConfig,
+  SDKRequestOptions,
+  ListObjectsOptions,
+  ListObjectsResult,
+  ObjectInfo,
+  SignedUrlOptions,
+  PostPolicyOptions,
+  PostPolicyResult,
+  CopyObjectOptions,
+  CopyPartSource,
+  DeleteObjectsResult,
+  MultipartPart,
+  RestoreObjectOptions,
+  StorageClass,
+  UploadPartOptions,
+  HeadObjectOptions,
+  EncryptionDialect,
 } from './common';
-import { BaseObjectStorageSDK, EMPTY_OPTS } from './common';
-import { gmt } from './util';
+import type { CredentialProvider, Credentials } from './credentials';
+import { resolveCredentialProvider } from './credentials';
+import { NotFoundError, ObjectStorageError, createObjectStorageError } from './errors';
+import {
+  BaseObjectStorageSDK,
+  EMPTY_OPTS,
+  buildPostPolicy,
+  getPostPolicyFields,
+  getReadHeaders,
+  toReadObjectResult,
+  getResponseHeaderQuery,
+  parseListBucketResult,
+  parseListPartsResult,
+  parseDeleteResult,
+  parseTaggingResult,
+  stringifyTags,
+  parseObjectInfo,
+  toVendorStorageClass,
+  getEncryptionHeaders,
+  getCustomerKeyHeaders,
+} from './common';
+import { encodeKey, gmt, openBody, stringifyQuery, toMetadataHeaders, trimETag } from './util';
 
-const REGIONS = {
+export const KSYUN_REGIONS = {
   GUANGZHOU: 'cn-guangzhou',
 };
-export type KsyunRegion = keyof typeof REGIONS;
+export type KsyunRegion = keyof typeof KSYUN_REGIONS;
 export interface KsyunSDKConfig extends BaseSDKConfig {
   region: KsyunRegion;
   internal: boolean;
 }
 
+/** 归一化的存储类型与 KS3 存储类型的对应关系 */
+const STORAGE_CLASSES: Partial<Record<StorageClass, string>> = {
+  STANDARD: 'STANDARD',
+  IA: 'STANDARD_IA',
+  ARCHIVE: 'ARCHIVE',
+};
+
+/** KS3 服务端加密的请求头，不支持 KMS */
+const ENCRYPTION: EncryptionDialect = { vendor: 'ksyun', prefix: 'x-kss-', customerKey: true };
+
+/**
+ * 需要参与签名的子资源，见 https://docs.ksyun.com/documents/2321
+ */
+const SUB_RESOURCES = new Set([
+  'acl',
+  'lifecycle',
+  'location',
+  'logging',
+  'notification',
+  'partNumber',
+  'policy',
+  'requestPayment',
+  'torrent',
+  'uploadId',
+  'uploads',
+  'versionId',
+  'versioning',
+  'versions',
+  'website',
+  'delete',
+  'cors',
+  'tagging',
+  'restore',
+  'response-content-type',
+  'response-content-language',
+  'response-expires',
+  'response-cache-control',
+  'response-content-disposition',
+  'response-content-encoding',
+]);
+
 function getEndPoint(config: KsyunSDKConfig) {
-  return `${config.bucket}.ks3-${REGIONS[config.region]}${config.internal ? '-internal' : ''}.ksyuncs.com`;
+  return `ks3-${KSYUN_REGIONS[config.region]}${config.internal ? '-internal' : ''}.ksyuncs.com`;
 }
 export class KsyunObjectStorageSDK extends BaseObjectStorageSDK {
   private _config: KsyunSDKConfig;
+  private _credentials: CredentialProvider;
   constructor(config: KsyunSDKConfig) {
     super(config);
     this._config = config;
+    this._credentials = resolveCredentialProvider(config);
   }
-  private _getAuth(objectKey: string, method: string, headers: OutgoingHttpHeaders | undefined, date: string): string {
+  private _sign(
+    credentials: Credentials,
+    objectKey: string,
+    method: string,
+    headers: OutgoingHttpHeaders | undefined,
+    /** 请求头中的 Date，预签名 url 中为 Expires */
+    date: string,
+    query?: Record<string, string>,
+  ): string {
     // https://docs.ksyun.com/documents/2321
     const contentString =
       `${method}\n` +
@@ -38,126 +125,358 @@ export class KsyunObjectStorageSDK extends BaseObjectStorageSDK {
       `${date}\n${
         // Date
         calcCanonicalizedOSSHeaders(headers) // CanonicalizedOSSHeaders
-      }/${this._config.bucket}/${objectKey}`; // CanonicalizedResource
-
-    const signature = crypto.createHmac('sha1', this._config.secretKey).update(contentString).digest('base64');
+      }/${this._config.bucket}/${objectKey}${calcSubResources(query)}`; // CanonicalizedResource
 
-    return `KSS ${this._config.accessKey}:${signature}`;
+    return crypto.createHmac('sha1', credentials.secretKey).update(contentString).digest('base64');
+  }
+  private _getAuth(
+    credentials: Credentials,
+    objectKey: string,
+    method: string,
+    headers: OutgoingHttpHeaders | undefined,
+    date: string,
+    query?: Record<string, string>,
+  ): string {
+    return `KSS ${credentials.accessKey}:${this._sign(credentials, objectKey, method, headers, date, query)}`;
+  }
+  private _request(req: SDKRequestOptions): Promise<FetchResponse> {
+    return this._withRetry(async () => {
+      const credentials = await this._credentials.getCredentials();
+      const dt = gmt();
+      const headers: OutgoingHttpHeaders = { ...req.headers, Date: dt };
+      if (credentials.securityToken) {
+        headers['x-kss-security-token'] = credentials.securityToken;
+      }
+      headers.Authorization = this._getAuth(credentials, req.key, req.method, headers, dt, req.query);
+      const { host, path } = this._resolveAddress(getEndPoint(this._config), this._config.bucket, req.key);
+      const qs = stringifyQuery(req.query);
+      return this._fetchAsync({
+        method: req.method,
+        host,
+        path: `${encodeKey(path)}${qs ? `?${qs}` : ''}`,
+        returnStream: req.returnStream ?? false,
+        headers,
+        body: req.body === undefined ? undefined : openBody(req.body),
+        limit: req.limit,
+        calcHash: req.calcHash,
+      });
+    }, this._isRetryableRequest(req));
   }
 
-  readObject(filename: string): Promise<ReadObjectResult | null> {
-    return new Promise((resolve, reject) => {
-      const options: FetchOptions = {
+  async readObject(filename: string, options: ReadObjectOptions = EMPTY_OPTS): Promise<ReadObjectResult | null> {
+    if (options.decompress) {
+      return this._readDecompressed(filename, options);
+    }
+    try {
+      const { result } = await this._request({
         method: 'GET',
-        host: getEndPoint(this._config),
-        path: `/${filename}`,
+        key: filename,
+        headers: { ...getReadHeaders(options), ...getCustomerKeyHeaders(ENCRYPTION, options.encryption) },
+        returnStream: true,
+      });
+      return toReadObjectResult(result, 'x-kss-');
+    } catch (ex) {
+      if (ex instanceof ObjectStorageError && ex.status === 304) {
+        return { notModified: true };
+      }
+      if (ex instanceof NotFoundError && ex.code === 'NoSuchKey') {
+        // 文件不存在当成正常情况，返回 null。
+        return null;
+      }
+      throw ex;
+    }
+  }
+  async headObject(filename: string, options: HeadObjectOptions = EMPTY_OPTS): Promise<ObjectInfo | null> {
+    try {
+      const { result } = await this._request({
+        method: 'HEAD',
+        key: filename,
+        headers: getCustomerKeyHeaders(ENCRYPTION, options.encryption),
         returnStream: true,
-      };
-      const dt = gmt();
-      options.headers = {
-        Date: dt,
-        Authorization: this._getAuth(filename, 'GET', undefined, dt),
-      };
-      this._fetch(options, (err: Error, result: FetchResult) => {
-        if (!err) {
-          return resolve({
-            headers: result.headers,
-            stream: result.body,
-          });
-        }
-        if (!result?.Error) {
-          return reject(err);
-        }
-        if (result.Error.Code === 'NoSuchKey') {
-          // 文件不存在当成正常情况，返回 null。
-          return resolve(null);
-        }
-        reject(err);
       });
+      result?.body?.resume();
+      return parseObjectInfo(result?.responseHeaders ?? {}, 'x-kss-');
+    } catch (ex) {
+      if (ex instanceof NotFoundError) return null;
+      throw ex;
+    }
+  }
+  private _getWriteHeaders(options: WriteObjectOptions): OutgoingHttpHeaders {
+    const headers: OutgoingHttpHeaders = {
+      ...options.headers,
+      ...toMetadataHeaders('x-kss-meta-', options.metadata),
+      ...getEncryptionHeaders(ENCRYPTION, options.encryption),
+    };
+    if (options.contentEncoding) {
+      headers['Content-Encoding'] = options.contentEncoding;
+    }
+    if (options.contentType) {
+      headers['Content-Type'] = options.contentType;
+    }
+    if (options.tags) {
+      headers['x-kss-tagging'] = stringifyTags(options.tags);
+    }
+    if (options.storageClass) {
+      headers['x-kss-storage-class'] = toVendorStorageClass('ksyun', STORAGE_CLASSES, options.storageClass);
+    }
+    if (options.acl) {
+      headers['x-kss-acl'] = options.acl;
+    }
+    return headers;
+  }
+  async writeObject(
+    filename: string,
+    req: ObjectBody,
+    options: WriteObjectOptions = EMPTY_OPTS,
+  ): Promise<void | string> {
+    if (options.compress) {
+      return this._writeCompressed(filename, req, options);
+    }
+    // KS3 的 PutObject 不支持条件请求，在本地检查。
+    await this._checkWritePrecondition(filename, options);
+    const { hash } = await this._request({
+      method: 'PUT',
+      key: filename,
+      body: req,
+      limit: options.limit,
+      calcHash: options.calcHash,
+      headers: this._getWriteHeaders(options),
     });
+    return hash;
   }
-  writeObject(filename: string, req: Readable, options: WriteObjectOptions = EMPTY_OPTS): Promise<void | string> {
-    return new Promise((resolve, reject) => {
-      const dt = gmt();
 
-      const headers: OutgoingHttpHeaders = {
-        Date: dt,
-        Authorization: this._getAuth(filename, 'PUT', options.headers, dt),
-      };
-      if (options.contentEncoding) {
-        headers['Content-Encoding'] = options.contentEncoding;
-      }
-      if (options.contentType) {
-        headers['Content-Type'] = options.contentType;
-      }
-      const fetchOptions: FetchOptions = {
-        method: 'PUT',
-        host: getEndPoint(this._config),
-        path: `/${filename}`,
-        returnStream: false,
-        body: req,
-        limit: options.limit,
-        calcHash: options.calcHash,
-        headers,
-      };
+  async deleteObject(filename: string): Promise<void> {
+    await this._request({ method: 'DELETE', key: filename });
+  }
 
-      this._fetch(fetchOptions, (err, result, reqBodyHash) => {
-        if (!err) {
-          // logger.debug(result);
-          return resolve(reqBodyHash);
-        }
-        // if (err === ABORTED_ERR || err === TOO_LARGE_ERR) {
-        //   // 不需要打印日志
-        //   // console.log(err);
-        // } else if (!result || !result.Error) {
-        //   logger.serror('ALI-OSS', err);
-        // } else {
-        //   logger.serror('ALI-OSS', JSON.stringify(result.Error));
-        // }
-        reject(result?.Error ?? err);
-      });
+  protected async _deleteObjectsBatch(keys: string[]): Promise<DeleteObjectsResult> {
+    // https://docs.ksyun.com/documents/2320
+    const body = this._buildDeleteObjectsBody(keys);
+    const { result } = await this._request({
+      method: 'POST',
+      key: '',
+      query: { delete: '' },
+      headers: {
+        'Content-Type': 'application/xml',
+        'Content-MD5': crypto.createHash('md5').update(body).digest('base64'),
+      },
+      body,
     });
+    return parseDeleteResult(result);
+  }
+  async listObjects(options: ListObjectsOptions = EMPTY_OPTS): Promise<ListObjectsResult> {
+    // https://docs.ksyun.com/documents/956
+    const query: Record<string, string> = {};
+    if (options.prefix) query.prefix = options.prefix;
+    if (options.delimiter) query.delimiter = options.delimiter;
+    const marker = options.continuationToken ?? options.startAfter;
+    if (marker) query.marker = marker;
+    if (options.maxKeys) query['max-keys'] = `${options.maxKeys}`;
+    const { result } = await this._request({ method: 'GET', key: '', query });
+    return parseListBucketResult(result);
   }
 
-  deleteObject(filename: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const dt = gmt();
+  async putObjectTagging(filename: string, tags: Record<string, string>): Promise<void> {
+    const body = this._buildTaggingBody(tags);
+    await this._request({
+      method: 'PUT',
+      key: filename,
+      query: { tagging: '' },
+      headers: {
+        'Content-Type': 'application/xml',
+        'Content-MD5': crypto.createHash('md5').update(body).digest('base64'),
+      },
+      body,
+    });
+  }
+  async getObjectTagging(filename: string): Promise<Record<string, string>> {
+    const { result } = await this._request({ method: 'GET', key: filename, query: { tagging: '' } });
+    return parseTaggingResult(result);
+  }
+  async deleteObjectTagging(filename: string): Promise<void> {
+    await this._request({ method: 'DELETE', key: filename, query: { tagging: '' } });
+  }
+  async restoreObject(filename: string, options: RestoreObjectOptions = EMPTY_OPTS): Promise<void> {
+    const body = this._buildRestoreBody(options);
+    await this._request({
+      method: 'POST',
+      key: filename,
+      query: { restore: '' },
+      headers: {
+        'Content-Type': 'application/xml',
+        'Content-MD5': crypto.createHash('md5').update(body).digest('base64'),
+      },
+      body,
+    });
+  }
 
-      const options: FetchOptions = {
-        method: 'DELETE',
-        host: getEndPoint(this._config),
-        path: `/${filename}`,
-        returnStream: false,
-        headers: {
-          Date: dt,
-          Authorization: this._getAuth(filename, 'DELETE', undefined, dt),
-        },
-      };
-      this._fetch(options, (err, result) => {
-        if (!err) {
-          // logger.debug(result);
-          return resolve();
-        }
-        // if (!result || !result.Error) {
-        //   logger.serror('TX-OSS', err);
-        // } else {
-        //   logger.serror('TX-OSS', JSON.stringify(result.Error));
-        // }
-        reject(result?.Error ?? err);
+  private _getCopySource(src: string, bucket = this._config.bucket): string {
+    return `/${bucket}/${encodeKey(src)}`;
+  }
+  async copyObject(src: string, dest: string, options: CopyObjectOptions = EMPTY_OPTS): Promise<void> {
+    // https://docs.ksyun.com/documents/949
+    const headers: OutgoingHttpHeaders = {
+      ...options.headers,
+      ...toMetadataHeaders('x-kss-meta-', options.metadata),
+      ...getEncryptionHeaders(ENCRYPTION, options.encryption),
+      ...getCustomerKeyHeaders(ENCRYPTION, options.sourceEncryption, true),
+      'x-kss-copy-source': this._getCopySource(src, options.sourceBucket),
+      'x-kss-metadata-directive': options.metadataDirective ?? 'COPY',
+    };
+    if (options.contentType) {
+      headers['Content-Type'] = options.contentType;
+    }
+    if (options.storageClass) {
+      headers['x-kss-storage-class'] = toVendorStorageClass('ksyun', STORAGE_CLASSES, options.storageClass);
+    }
+    if (options.acl) {
+      headers['x-kss-acl'] = options.acl;
+    }
+    const { result } = await this._request({ method: 'PUT', key: dest, headers });
+    if (result?.Error) {
+      // 复制请求可能返回 200 但响应体为错误信息
+      throw createObjectStorageError(result.Error.Message ?? result.Error.Code, {
+        code: result.Error.Code,
+        requestId: result.Error.RequestId,
       });
+    }
+  }
+  async getSignedUrl(filename: string, options: SignedUrlOptions = EMPTY_OPTS): Promise<string> {
+    const method = options.method ?? 'GET';
+    const expires = `${((Date.now() / 1000) | 0) + (options.expires ?? 3600)}`;
+    const query = getResponseHeaderQuery(options.responseHeaders);
+    const headers: OutgoingHttpHeaders = options.contentType ? { 'Content-Type': options.contentType } : {};
+    const credentials = await this._credentials.getCredentials();
+    const signature = this._sign(credentials, filename, method, headers, expires, query);
+    const { host, path } = this._resolveAddress(getEndPoint(this._config), this._config.bucket, filename);
+    return this._buildUrl(host, path, {
+      ...query,
+      ...(credentials.securityToken ? { 'x-kss-security-token': credentials.securityToken } : {}),
+      KSSAccessKeyId: credentials.accessKey,
+      Expires: expires,
+      Signature: signature,
+    });
+  }
+  async createPostPolicy(options: PostPolicyOptions): Promise<PostPolicyResult> {
+    // https://docs.ksyun.com/documents/955
+    if ((options.contentTypes?.length ?? 0) > 1) {
+      throw new Error('ks3 post policy supports only one content type');
+    }
+    const credentials = await this._credentials.getCredentials();
+    const tokenFields: Record<string, string> = credentials.securityToken
+      ? { 'x-kss-security-token': credentials.securityToken }
+      : {};
+    const { policy } = buildPostPolicy(
+      this._config.bucket,
+      options,
+      Object.keys(tokenFields).map((k) => ({ [k]: tokenFields[k] })),
+    );
+    const { host, path } = this._resolveAddress(getEndPoint(this._config), this._config.bucket, '');
+    return {
+      url: this._buildUrl(host, path),
+      fields: {
+        ...getPostPolicyFields(options),
+        ...tokenFields,
+        KSSAccessKeyId: credentials.accessKey,
+        policy,
+        Signature: crypto.createHmac('sha1', credentials.secretKey).update(policy).digest('base64'),
+      },
+    };
+  }
+  async initiateMultipartUpload(filename: string, options: WriteObjectOptions = EMPTY_OPTS): Promise<string> {
+    const { result } = await this._request({
+      method: 'POST',
+      key: filename,
+      query: { uploads: '' },
+      headers: this._getWriteHeaders(options),
+    });
+    return (result?.InitiateMultipartUploadResult as { UploadId: string }).UploadId;
+  }
+  async uploadPart(
+    filename: string,
+    uploadId: string,
+    partNumber: number,
+    body: Buffer,
+    options: UploadPartOptions = EMPTY_OPTS,
+  ): Promise<string> {
+    const { result } = await this._request({
+      method: 'PUT',
+      key: filename,
+      query: { partNumber: `${partNumber}`, uploadId },
+      headers: getCustomerKeyHeaders(ENCRYPTION, options.encryption),
+      body,
+      returnStream: true,
     });
+    result?.body?.resume();
+    return trimETag(result?.responseHeaders?.etag);
+  }
+  async uploadPartCopy(
+    dest: string,
+    uploadId: string,
+    partNumber: number,
+    source: CopyPartSource,
+    options: UploadPartOptions = EMPTY_OPTS,
+  ): Promise<string> {
+    const { result } = await this._request({
+      method: 'PUT',
+      key: dest,
+      query: { partNumber: `${partNumber}`, uploadId },
+      headers: {
+        'x-kss-copy-source': this._getCopySource(source.key, source.bucket),
+        'x-kss-copy-source-range': `bytes=${source.start}-${source.end}`,
+        ...getCustomerKeyHeaders(ENCRYPTION, source.encryption, true),
+        ...getCustomerKeyHeaders(ENCRYPTION, options.encryption),
+      },
+    });
+    return trimETag((result?.CopyPartResult as { ETag: string } | undefined)?.ETag);
+  }
+  async completeMultipartUpload(filename: string, uploadId: string, parts: MultipartPart[]): Promise<void> {
+    await this._request({
+      method: 'POST',
+      key: filename,
+      query: { uploadId },
+      headers: { 'Content-Type': 'application/xml' },
+      body: this._buildCompleteMultipartBody(parts),
+    });
+  }
+  async abortMultipartUpload(filename: string, uploadId: string): Promise<void> {
+    await this._request({ method: 'DELETE', key: filename, query: { uploadId } });
+  }
+  async listParts(filename: string, uploadId: string): Promise<MultipartPart[]> {
+    const parts: MultipartPart[] = [];
+    let marker: string | undefined;
+    do {
+      const query: Record<string, string> = { uploadId };
+      if (marker) query['part-number-marker'] = marker;
+      const { result } = await this._request({ method: 'GET', key: filename, query });
+      const page = parseListPartsResult(result);
+      parts.push(...page.parts);
+      marker = page.nextPartNumberMarker;
+    } while (marker);
+    return parts;
   }
 }
 
 function calcCanonicalizedOSSHeaders(headers?: OutgoingHttpHeaders): string {
   if (!headers) return '';
-  const props = [];
+  const props: [string, unknown][] = [];
   for (const k in headers) {
     const lk = k.toLowerCase();
     if (lk.startsWith('x-kss-')) {
-      props.push(`${lk}:${headers[k]}`);
+      props.push([lk, headers[k]]);
     }
   }
+  // 按名称排序，不能直接对 `name:value` 排序，否则 x-kss-meta-a 会排在 x-kss-meta-a-b 之后
+  props.sort((a, b) => (a[0] < b[0] ? -1 : 1));
   // 如果设置CanonicalizedOSSHeaders为空，则无需在最后添加分隔符\n
-  return props.length ? `${props.sort().join('\n')}\n` : '';
+  return props.length ? `${props.map(([k, v]) => `${k}:${v}`).join('\n')}\n` : '';
+}
+
+function calcSubResources(query?: Record<string, string>): string {
+  if (!query) return '';
+  const props = Object.keys(query)
+    .filter((k) => SUB_RESOURCES.has(k))
+    .sort()
+    .map((k) => (query[k] === '' ? k : `${k}=${query[k]}`));
+  return props.length ? `?${props.join('&')}` : '';
 }
@@ -0,0 +1,398 @@
+import { createHash } from 'crypto';
+import type {
+  BaseClientConfig,
+  CopyObjectOptions,
+  HeadObjectOptions,
+  ListObjectsOptions,
+  ListObjectsResult,
+  ObjectBody,
+  ObjectInfo,
+  ReadObjectOptions,
+  ReadObjectResult,
+  RestoreObjectOptions,
+  UploadLargeOptions,
+  WriteObjectOptions,
+} from './common';
+import {
+  BaseObjectStorageSDK,
+  EMPTY_OPTS,
+  Readable,
+  checkPrecondition,
+  getCustomerKeyMd5,
+  needsRestore,
+  paginateKeys,
+  verifyCustomerKey,
+} from './common';
+import {
+  ABORTED_ERR,
+  NotFoundError,
+  ObjectStorageError,
+  PreconditionFailedError,
+  RestoreRequiredError,
+  TOO_LARGE_ERR,
+  toObjectStorageError,
+} from './errors';
+import { sleep } from './retry';
+import { getUserMetadata, isReplayableBody, openBody } from './util';
+
+export type MemorySDKConfig = BaseClientConfig & {
+  /** bucket 名称，默认为 `default`。同一个实例中不同的 bucket 互相隔离，可用于测试 sourceBucket */
+  bucket?: string;
+  /** 每次请求的模拟延迟，以毫秒计数，默认为 0 */
+  latency?: number;
+};
+
+export type MemoryOperationName =
+  | 'readObject'
+  | 'headObject'
+  | 'writeObject'
+  | 'deleteObject'
+  | 'copyObject'
+  | 'listObjects'
+  | 'putObjectTagging'
+  | 'getObjectTagging'
+  | 'deleteObjectTagging'
+  | 'restoreObject';
+
+/**
+ * 记录的一次请求，重试时每次尝试都会单独记录。
+ */
+export type MemoryOperation = {
+  name: MemoryOperationName;
+  /** listObjects 时为 prefix */
+  key: string;
+  /** 注入的故障导致失败时为对应的错误 */
+  error?: Error;
+};
+
+/**
+ * 注入的故障，在匹配的第 nth 次请求时生效，生效一次后自动移除。
+ */
+export type MemoryFault = {
+  /**
+   * - error: 请求直接失败，抛出 error
+   * - abort: 传输 afterBytes 个字节后中断，写入时抛出 ABORTED_ERR，读取时返回的 stream 以 ABORTED_ERR 出错
+   * - too_large: 写入时模拟服务端拒绝过大的请求体，抛出 TOO_LARGE_ERR
+   */
+  kind: 'error' | 'abort' | 'too_large';
+  /** 从注入之后开始计数，第几次匹配的请求生效，默认为 1，即下一次请求 */
+  nth?: number;
+  /** 只对该操作生效，默认对所有操作生效 */
+  operation?: MemoryOperationName;
+  /** kind 为 error 时抛出的错误，默认为 503 ServiceUnavailable */
+  error?: Error;
+  /** kind 为 abort 时中断前传输的字节数，默认为 0 */
+  afterBytes?: number;
+};
+
+type PendingFault = MemoryFault & { remaining: number };
+
+/** 一天的毫秒数，用于计算解冻的副本的过期时间 */
+const DAY = 24 * 60 * 60 * 1000;
+
+type MemoryObject = {
+  data: Buffer;
+  info: ObjectInfo;
+  tags: Record<string, string>;
+  /** 使用 SSE-C 写入时密钥的 MD5 */
+  customerKeyMd5?: string;
+};
+
+/**
+ * 把 Buffer 包装为 Readable，abortAfter 不为 undefined 时，输出 abortAfter 个字节后以 ABORTED_ERR 中断。
+ */
+function toStream(data: Buffer, abortAfter?: number): Readable {
+  if (abortAfter === undefined) return Readable.from([data]);
+  const stream = new Readable({ read() {} });
+  stream.push(data.subarray(0, abortAfter));
+  process.nextTick(() => stream.destroy(ABORTED_ERR));
+  return stream;
+}
+
+/**
+ * 使用内存存储对象，用于单元测试。除了 BaseObjectStorageSDK 的接口，还提供注入延迟、故障和查看请求记录的方法。
+ */
+export class MemoryObjectStorageSDK extends BaseObjectStorageSDK {
+  /** 按顺序记录的请求 */
+  readonly operations: MemoryOperation[] = [];
+  /** 每次请求的模拟延迟，以毫秒计数 */
+  latency: number;
+  private _bucket: string;
+  private _buckets = new Map<string, Map<string, MemoryObject>>();
+  private _faults: PendingFault[] = [];
+  constructor(config: MemorySDKConfig = EMPTY_OPTS) {
+    super(config);
+    this._bucket = config.bucket ?? 'default';
+    this.latency = config.latency ?? 0;
+  }
+
+  /**
+   * 注入一个故障。
+   */
+  injectFault(fault: MemoryFault): void {
+    this._faults.push({ ...fault, remaining: fault.nth ?? 1 });
+  }
+  /**
+   * 清空所有数据、故障和请求记录。
+   */
+  reset(): void {
+    this._buckets.clear();
+    this._faults = [];
+    this.operations.length = 0;
+  }
+
+  private _getBucket(bucket = this._bucket): Map<string, MemoryObject> {
+    let objects = this._buckets.get(bucket);
+    if (!objects) {
+      objects = new Map();
+      this._buckets.set(bucket, objects);
+    }
+    return objects;
+  }
+  /**
+   * 模拟一次请求：记录操作、等待延迟，并取出本次请求需要生效的故障。kind 为 error 的故障直接抛出。
+   */
+  private async _simulate(name: MemoryOperationName, key: string): Promise<MemoryFault | undefined> {
+    const operation: MemoryOperation = { name, key };
+    this.operations.push(operation);
+    if (this.latency > 0) {
+      await sleep(this.latency);
+    }
+    let fault: PendingFault | undefined;
+    for (const f of this._faults) {
+      if (f.operation && f.operation !== name) continue;
+      // 所有匹配的故障都需要计数，同一次请求只有一个故障生效
+      if (--f.remaining <= 0 && !fault) fault = f;
+    }
+    if (!fault) return undefined;
+    this._faults.splice(this._faults.indexOf(fault), 1);
+    if (fault.kind === 'error') {
+      operation.error =
+        fault.error ?? new ObjectStorageError('injected fault', { status: 503, code: 'ServiceUnavailable' });
+      throw operation.error;
+    }
+    return fault;
+  }
+
+  async readObject(filename: string, options: ReadObjectOptions = EMPTY_OPTS): Promise<ReadObjectResult | null> {
+    if (options.decompress) {
+      return this._readDecompressed(filename, options);
+    }
+    const { fault, obj } = await this._withRetry(async () => {
+      const fault = await this._simulate('readObject', filename);
+      return { fault, obj: this._getBucket().get(filename) };
+    }, true);
+    if (!obj) return null;
+    verifyCustomerKey(filename, obj.customerKeyMd5, options.encryption);
+    if (needsRestore(obj.info)) {
+      throw new RestoreRequiredError(`object is archived: ${filename}`);
+    }
+    const check = checkPrecondition(obj.info, options, 'read');
+    if (check === 'failed') {
+      throw new PreconditionFailedError();
+    }
+    if (check === 'not_modified') {
+      return { notModified: true };
+    }
+    const { info } = obj;
+    const headers: Record<string, string> = {};
+    info.contentType && (headers['Content-Type'] = info.contentType);
+    info.contentEncoding && (headers['Content-Encoding'] = info.contentEncoding);
+    const abortAfter = fault?.kind === 'abort' ? fault.afterBytes ?? 0 : undefined;
+    if (options.range) {
+      const { start } = options.range;
+      const end = Math.min(options.range.end ?? info.size - 1, info.size - 1);
+      if (start > end) {
+        throw new ObjectStorageError('invalid range', { status: 416, code: 'InvalidRange' });
+      }
+      return {
+        headers,
+        stream: toStream(obj.data.subarray(start, end + 1), abortAfter),
+        info: { ...info },
+        metadata: info.metadata,
+        contentRange: `bytes ${start}-${end}/${info.size}`,
+        totalSize: info.size,
+      };
+    }
+    return {
+      headers,
+      stream: toStream(obj.data, abortAfter),
+      info: { ...info },
+      metadata: info.metadata,
+      totalSize: info.size,
+    };
+  }
+  async headObject(filename: string, options: HeadObjectOptions = EMPTY_OPTS): Promise<ObjectInfo | null> {
+    const obj = await this._withRetry(async () => {
+      await this._simulate('headObject', filename);
+      return this._getBucket().get(filename);
+    }, true);
+    if (!obj) return null;
+    verifyCustomerKey(filename, obj.customerKeyMd5, options.encryption);
+    return { ...obj.info };
+  }
+  async writeObject(
+    filename: string,
+    req: ObjectBody,
+    options: WriteObjectOptions = EMPTY_OPTS,
+  ): Promise<void | string> {
+    if (options.compress) {
+      return this._writeCompressed(filename, req, options);
+    }
+    await this._checkWritePrecondition(filename, options);
+    const customerKeyMd5 = getCustomerKeyMd5(options.encryption);
+    return this._withRetry(async () => {
+      const fault = await this._simulate('writeObject', filename);
+      const body = openBody(req);
+      const limit = options.limit ?? 0;
+      const chunks: Buffer[] = [];
+      let received = 0;
+      try {
+        for await (const chunk of Buffer.isBuffer(body) ? [body] : body) {
+          const buf: Buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+          if (fault?.kind === 'abort' && received + buf.length > (fault.afterBytes ?? 0)) {
+            throw ABORTED_ERR;
+          }
+          received += buf.length;
+          if (limit > 0 && received > limit) {
+            throw TOO_LARGE_ERR;
+          }
+          chunks.push(buf);
+        }
+      } catch (ex) {
+        if (!Buffer.isBuffer(body)) body.destroy();
+        throw toObjectStorageError(ex);
+      }
+      if (fault?.kind === 'too_large') {
+        throw TOO_LARGE_ERR;
+      }
+      const data = Buffer.concat(chunks);
+      this._getBucket().set(filename, {
+        data,
+        info: {
+          size: data.length,
+          etag: createHash('md5').update(data).digest('hex'),
+          lastModified: new Date(),
+          contentType: options.contentType ?? options.headers?.['Content-Type'],
+          contentEncoding: options.contentEncoding ?? options.headers?.['Content-Encoding'],
+          storageClass: options.storageClass,
+          encryption: options.encryption?.type,
+          metadata: getUserMetadata(options.headers, options.metadata),
+        },
+        tags: { ...options.tags },
+        customerKeyMd5,
+      });
+      return options.calcHash ? createHash(options.calcHash).update(data).digest('hex') : undefined;
+    }, isReplayableBody(req));
+  }
+  /**
+   * 内存中不需要分片，直接使用 writeObject。
+   */
+  async uploadLarge(filename: string, source: Readable, options: UploadLargeOptions = EMPTY_OPTS) {
+    return this.writeObject(filename, source, options);
+  }
+  async deleteObject(filename: string): Promise<void> {
+    await this._withRetry(async () => {
+      await this._simulate('deleteObject', filename);
+      this._getBucket().delete(filename);
+    }, true);
+  }
+  async copyObject(src: string, dest: string, options: CopyObjectOptions = EMPTY_OPTS): Promise<void> {
+    const customerKeyMd5 = getCustomerKeyMd5(options.encryption);
+    await this._withRetry(async () => {
+      await this._simulate('copyObject', dest);
+      const obj = this._getBucket(options.sourceBucket).get(src);
+      if (!obj) {
+        throw new NotFoundError(`object not found: ${src}`);
+      }
+      verifyCustomerKey(src, obj.customerKeyMd5, options.sourceEncryption);
+      if (needsRestore(obj.info)) {
+        throw new RestoreRequiredError(`object is archived: ${src}`);
+      }
+      const info: ObjectInfo =
+        options.metadataDirective === 'REPLACE'
+          ? {
+              ...obj.info,
+              contentType: options.contentType ?? options.headers?.['Content-Type'],
+              contentEncoding: options.headers?.['Content-Encoding'],
+              metadata: getUserMetadata(options.headers, options.metadata),
+            }
+          : { ...obj.info };
+      this._getBucket().set(dest, {
+        data: obj.data,
+        info: {
+          ...info,
+          lastModified: new Date(),
+          storageClass: options.storageClass ?? info.storageClass,
+          restore: undefined,
+          encryption: options.encryption?.type,
+        },
+        tags: obj.tags,
+        customerKeyMd5,
+      });
+    }, true);
+  }
+  private _getObject(filename: string): MemoryObject {
+    const obj = this._getBucket().get(filename);
+    if (!obj) {
+      throw new NotFoundError(`object not found: ${filename}`);
+    }
+    return obj;
+  }
+  async putObjectTagging(filename: string, tags: Record<string, string>): Promise<void> {
+    await this._withRetry(async () => {
+      await this._simulate('putObjectTagging', filename);
+      this._getObject(filename).tags = { ...tags };
+    }, true);
+  }
+  async getObjectTagging(filename: string): Promise<Record<string, string>> {
+    return this._withRetry(async () => {
+      await this._simulate('getObjectTagging', filename);
+      return { ...this._getObject(filename).tags };
+    }, true);
+  }
+  async deleteObjectTagging(filename: string): Promise<void> {
+    await this._withRetry(async () => {
+      await this._simulate('deleteObjectTagging', filename);
+      this._getObject(filename).tags = {};
+    }, true);
+  }
+  /**
+   * 立即完成解冻，解冻的副本在 days 天后过期。
+   */
+  async restoreObject(filename: string, options: RestoreObjectOptions = EMPTY_OPTS): Promise<void> {
+    await this._withRetry(async () => {
+      await this._simulate('restoreObject', filename);
+      const { info } = this._getObject(filename);
+      if (info.storageClass !== 'ARCHIVE' && info.storageClass !== 'COLD_ARCHIVE') {
+        throw new ObjectStorageError(`object is not archived: ${filename}`, {
+          status: 400,
+          code: 'OperationNotSupported',
+        });
+      }
+      info.restore = { ongoing: false, expiresAt: new Date(Date.now() + (options.days ?? 1) * DAY) };
+    }, true);
+  }
+  async listObjects(options: ListObjectsOptions = EMPTY_OPTS): Promise<ListObjectsResult> {
+    return this._withRetry(async () => {
+      await this._simulate('listObjects', options.prefix ?? '');
+      const objects = this._getBucket();
+      const page = paginateKeys([...objects.keys()], options);
+      return {
+        objects: page.keys.map((key) => {
+          const { info } = objects.get(key) as MemoryObject;
+          return {
+            key,
+            size: info.size,
+            etag: info.etag,
+            lastModified: info.lastModified,
+            storageClass: info.storageClass,
+          };
+        }),
+        commonPrefixes: page.commonPrefixes,
+        isTruncated: page.isTruncated,
+        nextContinuationToken: page.nextContinuationToken,
+      };
+    }, true);
+  }
+}
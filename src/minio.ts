@@ -1,112 +1,499 @@
 import crypto from 'crypto';
-import type { ClientOptions } from 'minio';
-import { Client } from 'minio';
-import type { WriteObjectOptions, ReadObjectResult, BaseSDKConfig } from './common';
-import { Readable, EMPTY_OPTS, BaseObjectStorageSDK, TOO_LARGE_ERR } from './common';
+import { Agent as HttpsAgent } from 'https';
+import { Transform } from 'stream';
+import getRawBody from 'raw-body';
+import type { BucketItemStat, ClientOptions, ItemBucketMetadata } from 'minio';
+import { Client, CopyDestinationOptions, CopySourceOptions, ENCRYPTION_TYPES } from 'minio';
+import type {
+  WriteObjectOptions,
+  ReadObjectResult,
+  ReadObjectOptions,
+  BaseSDKConfig,
+  ListObjectsOptions,
+  ListObjectsResult,
+  ObjectInfo,
+  UploadLargeOptions,
+  SignedUrlOptions,
+  PostPolicyOptions,
+  PostPolicyResult,
+  CopyObjectOptions,
+  DeleteObjectsResult,
+  ObjectBody,
+  RestoreObjectOptions,
+  StorageClass,
+  HeadObjectOptions,
+  ServerSideEncryption,
+  EncryptionDialect,
+} from './common';
+import {
+  Readable,
+  EMPTY_OPTS,
+  BaseObjectStorageSDK,
+  getResponseHeaderQuery,
+  getPostPolicyFields,
+  checkPrecondition,
+  normalizeStorageClass,
+  toVendorStorageClass,
+  getEncryptionHeaders,
+  parseEncryptionHeaders,
+  parseListBucketResult,
+  parseTaggingResult,
+} from './common';
+import type { CredentialProvider, Credentials } from './credentials';
+import { resolveCredentialProvider } from './credentials';
+import {
+  NotFoundError,
+  ObjectStorageError,
+  PreconditionFailedError,
+  TOO_LARGE_ERR,
+  createObjectStorageError,
+  toObjectStorageError,
+} from './errors';
+import {
+  decodeMetadataValue,
+  isReplayableBody,
+  openBody,
+  pipeThrough,
+  stringifyQuery,
+  toMetadataHeaders,
+} from './util';
 
 export type MinioSDKConfig = BaseSDKConfig & Exclude<ClientOptions, 'secretKey' | 'accessKey'>;
 
+/** minio 只支持标准存储，也不支持对象级别的 acl，写入和复制时忽略 acl */
+const STORAGE_CLASSES: Partial<Record<StorageClass, string>> = {
+  STANDARD: 'STANDARD',
+};
+
+/** minio 客户端读取时无法指定 SSE-C 的密钥，因此不支持 SSE-C */
+const ENCRYPTION: EncryptionDialect = {
+  vendor: 'minio',
+  prefix: 'x-amz-',
+  kmsAlgorithm: 'aws:kms',
+  kmsKeyIdHeader: 'x-amz-server-side-encryption-aws-kms-key-id',
+};
+
+function checkCustomerKey(encryption: ServerSideEncryption | undefined): void {
+  if (encryption?.type === 'customer') {
+    throw new Error('minio does not support server-side encryption with customer-provided keys');
+  }
+}
+
+/**
+ * 转换为 minio 复制对象时使用的加密参数。
+ */
+function toMinioEncryption(encryption: ServerSideEncryption | undefined) {
+  checkCustomerKey(encryption);
+  switch (encryption?.type) {
+    case 'provider':
+      return { type: ENCRYPTION_TYPES.KMS, SSEAlgorithm: 'AES256' } as const;
+    case 'kms':
+      return { type: ENCRYPTION_TYPES.KMS, SSEAlgorithm: ENCRYPTION.kmsAlgorithm, KMSMasterKeyID: encryption.keyId };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * minio 会给 UserMetadata 的每个键加上 X-Amz-Meta- 前缀，也不支持 Content-Type 等其它请求头，
+ * 这里直接追加到复制请求的请求头中。
+ */
+class CopyDestinationWithHeaders extends CopyDestinationOptions {
+  private _headers: Record<string, string>;
+  constructor(options: ConstructorParameters<typeof CopyDestinationOptions>[0], headers: Record<string, string>) {
+    super(options);
+    this._headers = headers;
+  }
+  getHeaders(): ReturnType<CopyDestinationOptions['getHeaders']> {
+    return { ...super.getHeaders(), ...this._headers };
+  }
+}
+
+/**
+ * minio 的 metaData 中混合了 content-type 等标准头和去掉前缀的用户元数据，这里将其拆分。
+ */
+const NON_USER_META_KEYS = new Set([
+  'content-type',
+  'cache-control',
+  'content-encoding',
+  'content-disposition',
+  'content-language',
+]);
+function statToObjectInfo(stat: BucketItemStat): ObjectInfo {
+  const metadata: Record<string, string> = {};
+  let contentType: string | undefined;
+  let contentEncoding: string | undefined;
+  let storageClass: string | undefined;
+  const amzHeaders: Record<string, string> = {};
+  for (const k in stat.metaData) {
+    const lk = k.toLowerCase();
+    const v = `${stat.metaData[k]}`;
+    if (lk.startsWith('x-amz-')) amzHeaders[lk] = v;
+    if (lk === 'content-type') contentType = v;
+    else if (lk === 'content-encoding') contentEncoding = v;
+    else if (lk === 'x-amz-storage-class') storageClass = normalizeStorageClass(v);
+    else if (!NON_USER_META_KEYS.has(lk) && !lk.startsWith('x-amz-')) metadata[lk] = decodeMetadataValue(v);
+  }
+  return {
+    size: stat.size,
+    etag: stat.etag,
+    lastModified: stat.lastModified,
+    contentType,
+    contentEncoding,
+    storageClass,
+    encryption: parseEncryptionHeaders(amzHeaders, 'x-amz-'),
+    metadata,
+  };
+}
+
+/**
+ * 将 minio 客户端抛出的 S3Error 转换为 ObjectStorageError。
+ * minio 的错误中没有 http 状态码，只能根据错误码判断类型。
+ */
+function fromMinioError(
+  ex: Error & { code?: string; amzRequestid?: string; requestid?: string },
+  host?: string,
+): ObjectStorageError {
+  if (ex instanceof ObjectStorageError || ex?.name !== 'S3Error') {
+    return toObjectStorageError(ex, host);
+  }
+  return createObjectStorageError(ex.message, {
+    code: ex.code,
+    requestId: ex.amzRequestid ?? ex.requestid,
+    host,
+    cause: ex,
+  });
+}
+
 export class MinioObjectStorageSDK extends BaseObjectStorageSDK {
   private _config: MinioSDKConfig;
   private _client: Client;
+  /** 创建 _client 时使用的凭证 */
+  private _clientCredentials: Credentials;
+  private _bucketChecked = false;
+  private _credentials: CredentialProvider;
+  /** composeObject 会自动对大对象分片复制 */
+  protected _maxCopySize = Infinity;
   constructor(config: MinioSDKConfig) {
     super(config);
     this._config = config;
+    this._credentials = resolveCredentialProvider(config);
   }
 
+  /**
+   * minio 的 credentialsProvider 只接受其内部类的实例，因此凭证变化时重新创建客户端。
+   */
   async _getClient() {
-    if (!this._client) {
-      this._client = new Client(this._config);
+    const credentials = await this._credentials.getCredentials();
+    const current = this._clientCredentials;
+    if (
+      !this._client ||
+      current.accessKey !== credentials.accessKey ||
+      current.secretKey !== credentials.secretKey ||
+      current.securityToken !== credentials.securityToken
+    ) {
+      const { secure, endpoint, tls } = this._config;
+      this._client = new Client({
+        ...this._config,
+        accessKey: credentials.accessKey,
+        secretKey: credentials.secretKey,
+        sessionToken: credentials.securityToken,
+        endPoint: this._config.endPoint ?? endpoint,
+        useSSL: this._config.useSSL ?? secure,
+        transportAgent:
+          this._config.transportAgent ?? (secure && tls ? new HttpsAgent({ keepAlive: true, ...tls }) : undefined),
+      });
+      this._clientCredentials = credentials;
+    }
+    if (!this._bucketChecked) {
       if (!(await this._client.bucketExists(this._config.bucket))) {
         await this._client.makeBucket(this._config.bucket, this._config.region);
       }
+      this._bucketChecked = true;
     }
     return this._client;
   }
-  async readObject(filename: string) {
-    const client = await this._getClient();
-    let meta;
+  /**
+   * 调用 minio 客户端，并将错误统一转换为 ObjectStorageError。
+   * @param retryable 是否按重试策略重试，默认为 true
+   */
+  private async _invoke<T>(fn: (client: Client) => Promise<T>, retryable = true): Promise<T> {
+    const host = this._config.endPoint ?? this._config.endpoint;
+    const client = await this._getClient().catch((ex) => {
+      throw fromMinioError(ex, host);
+    });
+    return this._withRetry(async () => {
+      try {
+        return await fn(client);
+      } catch (ex) {
+        throw fromMinioError(ex, host);
+      }
+    }, retryable);
+  }
+  async readObject(filename: string, options: ReadObjectOptions = EMPTY_OPTS) {
+    if (options.decompress) {
+      return this._readDecompressed(filename, options);
+    }
+    checkCustomerKey(options.encryption);
+    let stat: BucketItemStat;
     try {
-      const stat = await client.statObject(this._config.bucket, filename);
-      meta = stat.metaData;
+      stat = await this._invoke((client) => client.statObject(this._config.bucket, filename));
     } catch (ex) {
-      if (ex.code === 'NotFound') {
+      if (ex instanceof NotFoundError) {
         return null;
       }
-      // eslint-disable-next-line no-console
-      console.error(ex);
       throw ex;
     }
-    const stream = await client.getObject(this._config.bucket, filename);
+    // minio 客户端的 getObject 不支持条件请求，使用 statObject 的结果在本地判断。
+    const info = statToObjectInfo(stat);
+    const check = checkPrecondition(info, options, 'read');
+    if (check === 'failed') {
+      throw new PreconditionFailedError();
+    }
+    if (check === 'not_modified') {
+      return { notModified: true } as ReadObjectResult;
+    }
+    if (options.range) {
+      const { start } = options.range;
+      const end = Math.min(options.range.end ?? stat.size - 1, stat.size - 1);
+      if (start > end) {
+        throw new ObjectStorageError('invalid range', { status: 416, code: 'InvalidRange' });
+      }
+      const stream = await this._invoke((client) =>
+        client.getPartialObject(this._config.bucket, filename, start, end - start + 1),
+      );
+      return {
+        headers: stat.metaData,
+        stream,
+        info,
+        metadata: info.metadata,
+        contentRange: `bytes ${start}-${end}/${stat.size}`,
+        totalSize: stat.size,
+      } as ReadObjectResult;
+    }
+    const stream = await this._invoke((client) => client.getObject(this._config.bucket, filename));
     return {
-      headers: meta,
+      headers: stat.metaData,
       stream,
+      info,
+      metadata: info.metadata,
+      totalSize: stat.size,
     } as ReadObjectResult;
   }
-  async writeObject(filename: string, req: Readable, options: WriteObjectOptions = EMPTY_OPTS) {
-    const client = await this._getClient();
-    const meta = options.headers ?? {};
+  async headObject(filename: string, options: HeadObjectOptions = EMPTY_OPTS): Promise<ObjectInfo | null> {
+    checkCustomerKey(options.encryption);
+    try {
+      return statToObjectInfo(await this._invoke((client) => client.statObject(this._config.bucket, filename)));
+    } catch (ex) {
+      if (ex instanceof NotFoundError) {
+        return null;
+      }
+      throw ex;
+    }
+  }
+  async writeObject(filename: string, req: ObjectBody, options: WriteObjectOptions = EMPTY_OPTS) {
+    if (options.compress) {
+      return this._writeCompressed(filename, req, options);
+    }
+    await this._checkWritePrecondition(filename, options);
+    const meta = {
+      ...options.headers,
+      ...toMetadataHeaders('x-amz-meta-', options.metadata),
+      ...(getEncryptionHeaders(ENCRYPTION, options.encryption) as Record<string, string>),
+    };
     if (options.contentEncoding) {
       meta['Content-Encoding'] = options.contentEncoding;
     }
     if (options.contentType) {
       meta['Content-Type'] = options.contentType;
     }
-    if (options.calcHash) {
-      /*
-       * 由于 minio 版本的 oss 只会在本地 dev 阶段使用，
-       * 代码逻辑不需要太严谨地考虑容错逻辑。
-       */
-      const hash = crypto.createHash('sha256');
-      const transform = new Readable({
-        read() {},
-      });
-      let hashstr;
-      req.on('data', (chunk) => {
-        transform.push(chunk);
-        hash.update(chunk);
-      });
-      req.on('end', () => {
-        hashstr = hash.digest('hex');
-        transform.push(null);
-      });
-      req.on('error', (err) => {
-        transform.destroy(err);
-      });
-      await client.putObject(this._config.bucket, filename, transform, meta);
-      return hashstr;
-    } else if (options.limit) {
-      const LIMIT_SIZE = options.limit ?? 0;
-      const transform = new Readable({
-        read() {},
-      });
-      let total = 0;
-      let end = false;
-      req.on('data', (chunk) => {
-        if (end) return;
-        total += chunk.length;
-        if (total > LIMIT_SIZE) {
-          end = true;
-          transform.destroy(TOO_LARGE_ERR);
+    if (options.storageClass) {
+      meta['X-Amz-Storage-Class'] = toVendorStorageClass('minio', STORAGE_CLASSES, options.storageClass);
+    }
+    const hash = await this._invoke((client) => {
+      const body = openBody(req);
+      return this._putObject(client, filename, Buffer.isBuffer(body) ? Readable.from([body]) : body, meta, options);
+    }, isReplayableBody(req));
+    // minio 客户端的 putObject 不支持 x-amz-tagging，上传后单独设置
+    if (options.tags && Object.keys(options.tags).length) {
+      await this.putObjectTagging(filename, options.tags);
+    }
+    return hash;
+  }
+  private async _putObject(
+    client: Client,
+    filename: string,
+    req: Readable,
+    meta: ItemBucketMetadata,
+    options: WriteObjectOptions,
+  ): Promise<void | string> {
+    const limit = options.limit ?? 0;
+    const hash = options.calcHash ? crypto.createHash(options.calcHash) : undefined;
+    let received = 0;
+    let tooLarge = false;
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        if (limit > 0 && received > limit) {
+          tooLarge = true;
+          callback(TOO_LARGE_ERR);
           return;
         }
-        transform.push(chunk);
-      });
-      req.on('end', () => {
-        if (end) return;
-        transform.push(null);
-        end = true;
-      });
-      req.on('error', (err) => {
-        transform.destroy(err);
+        hash?.update(chunk);
+        callback(null, chunk);
+      },
+    });
+    try {
+      await client.putObject(this._config.bucket, filename, pipeThrough(req, counter), meta);
+    } catch (ex) {
+      // minio 会包装读取流的错误，超出大小限制时直接抛出 TOO_LARGE_ERR
+      throw tooLarge ? TOO_LARGE_ERR : ex;
+    }
+    return hash?.digest('hex');
+  }
+  /**
+   * minio 客户端的 putObject 本身会对大文件自动分片上传，这里直接使用 writeObject，不支持断点续传。
+   */
+  async uploadLarge(filename: string, source: Readable, options: UploadLargeOptions = EMPTY_OPTS) {
+    return this.writeObject(filename, source, options);
+  }
+  async putObjectTagging(filename: string, tags: Record<string, string>): Promise<void> {
+    await this._invoke((client) => client.setObjectTagging(this._config.bucket, filename, tags));
+  }
+  /**
+   * minio 客户端解析 xml 时会把数字形式的值转换为 number，多个标签时还会多包一层数组，这里直接请求并解析。
+   */
+  async getObjectTagging(filename: string): Promise<Record<string, string>> {
+    const xml = await this._invoke(async (client) => {
+      const res = await client.makeRequestAsync({
+        method: 'GET',
+        bucketName: this._config.bucket,
+        objectName: filename,
+        query: 'tagging',
       });
-      await client.putObject(this._config.bucket, filename, transform, meta);
-    } else {
-      await client.putObject(this._config.bucket, filename, req, meta);
+      return (await getRawBody(res)).toString();
+    });
+    return parseTaggingResult(await this._XMLParser.parseStringPromise(xml));
+  }
+  async deleteObjectTagging(filename: string): Promise<void> {
+    await this._invoke((client) => client.removeObjectTagging(this._config.bucket, filename));
+  }
+  /**
+   * minio 只支持标准存储，这里只检查对象是否存在。
+   */
+  async setStorageClass(filename: string, storageClass: StorageClass): Promise<void> {
+    toVendorStorageClass('minio', STORAGE_CLASSES, storageClass);
+    if (!(await this.headObject(filename))) {
+      throw new NotFoundError(`object not found: ${filename}`);
     }
   }
-  async deleteObject(filename: string) {
+  /**
+   * minio 没有归档存储，不需要解冻。
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async restoreObject(filename: string, options?: RestoreObjectOptions): Promise<void> {
+    throw new Error('minio does not support restoreObject');
+  }
+  async copyObject(src: string, dest: string, options: CopyObjectOptions = EMPTY_OPTS): Promise<void> {
+    if (options.storageClass) {
+      toVendorStorageClass('minio', STORAGE_CLASSES, options.storageClass);
+    }
+    checkCustomerKey(options.sourceEncryption);
+    const replace = options.metadataDirective === 'REPLACE';
+    const headers: Record<string, string> = replace
+      ? { ...options.headers, ...toMetadataHeaders('x-amz-meta-', options.metadata) }
+      : {};
+    if (replace && options.contentType) {
+      headers['Content-Type'] = options.contentType;
+    }
+    await this._invoke((client) =>
+      client.composeObject(
+        new CopyDestinationWithHeaders(
+          {
+            Bucket: this._config.bucket,
+            Object: dest,
+            MetadataDirective: replace ? 'REPLACE' : 'COPY',
+            Encryption: toMinioEncryption(options.encryption),
+          },
+          headers,
+        ),
+        [new CopySourceOptions({ Bucket: options.sourceBucket ?? this._config.bucket, Object: src })],
+      ),
+    );
+  }
+  async getSignedUrl(filename: string, options: SignedUrlOptions = EMPTY_OPTS): Promise<string> {
+    return this._invoke((client) =>
+      client.presignedUrl(
+        options.method ?? 'GET',
+        this._config.bucket,
+        filename,
+        options.expires ?? 3600,
+        getResponseHeaderQuery(options.responseHeaders),
+      ),
+    );
+  }
+  async createPostPolicy(options: PostPolicyOptions): Promise<PostPolicyResult> {
+    if ((options.contentTypes?.length ?? 0) > 1) {
+      throw new Error('minio post policy supports only one content type');
+    }
     const client = await this._getClient();
-    await client.removeObject(this._config.bucket, filename);
+    const policy = client.newPostPolicy();
+    policy.setBucket(this._config.bucket);
+    policy.setKeyStartsWith(options.keyPrefix);
+    policy.setExpires(new Date(Date.now() + (options.expires ?? 3600) * 1000));
+    if (options.maxSize && options.maxSize > 0) {
+      policy.setContentLengthRange(0, options.maxSize);
+    }
+    if (options.contentTypes?.length) {
+      policy.setContentType(options.contentTypes[0]);
+    }
+    policy.policy.conditions.push(['eq', '$success_action_status', '200']);
+    const { postURL, formData } = await this._invoke((client) => client.presignedPostPolicy(policy));
+    return {
+      url: postURL,
+      fields: { ...getPostPolicyFields(options), ...formData },
+    };
+  }
+  async deleteObject(filename: string) {
+    await this._invoke((client) => client.removeObject(this._config.bucket, filename));
+  }
+  protected async _deleteObjectsBatch(keys: string[]): Promise<DeleteObjectsResult> {
+    // removeObjects 的类型定义返回 void，实际返回删除失败的 key 列表。
+    const errors =
+      ((await this._invoke((client) => client.removeObjects(this._config.bucket, keys))) as unknown as
+        | { Key: string; Code: string; Message?: string }[]
+        | undefined) ?? [];
+    const failed = new Set(errors.map((e) => e.Key));
+    return {
+      deleted: keys.filter((k) => !failed.has(k)),
+      errors: errors.map((e) => ({ key: e.Key, code: e.Code, message: e.Message ?? '' })),
+    };
+  }
+  async listObjects(options: ListObjectsOptions = EMPTY_OPTS): Promise<ListObjectsResult> {
+    // minio 服务端只支持 `/` 作为 delimiter
+    if (options.delimiter && options.delimiter !== '/') {
+      throw new Error(`minio supports only "/" as delimiter, got "${options.delimiter}"`);
+    }
+    // minio 的 listObjectsV2 会自动翻页，且每页先返回对象再返回 commonPrefixes，
+    // 这里直接请求一页 ListObjectsV2，保持与其他厂商一致的顺序和分页语义
+    const query: Record<string, string> = { 'list-type': '2' };
+    if (options.prefix) query.prefix = options.prefix;
+    if (options.delimiter) query.delimiter = options.delimiter;
+    if (options.startAfter) query['start-after'] = options.startAfter;
+    if (options.maxKeys) query['max-keys'] = `${options.maxKeys}`;
+    if (options.continuationToken) query['continuation-token'] = options.continuationToken;
+    const xml = await this._invoke(async (client) => {
+      const res = await client.makeRequestAsync({
+        method: 'GET',
+        bucketName: this._config.bucket,
+        query: stringifyQuery(query),
+      });
+      return (await getRawBody(res)).toString();
+    });
+    const result = parseListBucketResult(await this._XMLParser.parseStringPromise(xml));
+    // 上一页以 commonPrefix 结尾时，服务端会再次返回该 commonPrefix，与 paginateKeys 一致跳过
+    const marker = options.continuationToken ?? options.startAfter;
+    if (marker) result.commonPrefixes = result.commonPrefixes.filter((p) => p !== marker);
+    return result;
   }
 }
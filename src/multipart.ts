@@ -0,0 +1,161 @@
+import { createHash } from 'crypto';
+import type { Readable } from 'stream';
+import type {
+  BaseObjectStorageSDK,
+  CopyObjectOptions,
+  MultipartCheckpoint,
+  MultipartPart,
+  ObjectInfo,
+  UploadLargeOptions,
+} from './common';
+import { TOO_LARGE_ERR, TooLargeError } from './errors';
+import { ConcurrencyPool } from './util';
+
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+const DEFAULT_CONCURRENCY = 4;
+const COPY_PART_SIZE = 256 * 1024 * 1024;
+
+/**
+ * 将 Readable 按 partSize 切分为分片并发上传。
+ * limit 和 calcHash 针对整个文件计算，而不是单个分片。
+ * @internal
+ */
+export async function uploadLarge(
+  sdk: BaseObjectStorageSDK,
+  filename: string,
+  source: Readable,
+  options: UploadLargeOptions,
+): Promise<void | string> {
+  if (options.checkpoint && options.checkpoint.filename !== filename) {
+    throw new Error(`checkpoint mismatch: ${options.checkpoint.filename} !== ${filename}`);
+  }
+  const checkpoint: MultipartCheckpoint = options.checkpoint
+    ? { ...options.checkpoint }
+    : {
+        filename,
+        uploadId: await sdk.initiateMultipartUpload(filename, options),
+        partSize: options.partSize ?? DEFAULT_PART_SIZE,
+        parts: [],
+      };
+  if (!options.checkpoint) {
+    options.onCheckpoint?.({ ...checkpoint });
+  }
+  const uploaded = new Map<number, MultipartPart>(checkpoint.parts.map((p) => [p.partNumber, p]));
+  const limit = options.limit ?? 0;
+  const hash = options.calcHash ? createHash(options.calcHash) : null;
+  const pool = new ConcurrencyPool(options.concurrency ?? DEFAULT_CONCURRENCY);
+  let partNumber = 0;
+  let received = 0;
+  let chunks: Buffer[] = [];
+  let buffered = 0;
+
+  const onPartUploaded = (part: MultipartPart) => {
+    uploaded.set(part.partNumber, part);
+    checkpoint.parts = [...uploaded.values()].sort((a, b) => a.partNumber - b.partNumber);
+    options.onCheckpoint?.({ ...checkpoint });
+  };
+  const flush = (data: Buffer) => {
+    const num = ++partNumber;
+    const done = uploaded.get(num);
+    if (done && done.size === data.length) {
+      // 断点续传时跳过已上传的分片
+      return Promise.resolve();
+    }
+    return pool.add(async () => {
+      const etag = await sdk.uploadPart(filename, checkpoint.uploadId, num, data, { encryption: options.encryption });
+      onPartUploaded({ partNumber: num, etag, size: data.length });
+    });
+  };
+
+  try {
+    for await (const chunk of source) {
+      const buf: Buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      received += buf.length;
+      if (limit > 0 && received > limit) {
+        throw TOO_LARGE_ERR;
+      }
+      hash?.update(buf);
+      chunks.push(buf);
+      buffered += buf.length;
+      while (buffered >= checkpoint.partSize) {
+        const all = Buffer.concat(chunks);
+        await flush(all.subarray(0, checkpoint.partSize));
+        const rest = all.subarray(checkpoint.partSize);
+        chunks = rest.length ? [rest] : [];
+        buffered = rest.length;
+      }
+    }
+    // 最后一个分片。空文件也需要上传一个空的分片。
+    if (buffered > 0 || partNumber === 0) {
+      await flush(Buffer.concat(chunks));
+    }
+    await pool.drain();
+  } catch (ex) {
+    // 等待正在上传的分片结束，保证 onCheckpoint 中的断点信息完整。
+    await pool.drain().catch(() => undefined);
+    if (ex instanceof TooLargeError) {
+      // 超过大小限制的上传不可能续传，直接取消。
+      await sdk.abortMultipartUpload(filename, checkpoint.uploadId).catch(() => undefined);
+    }
+    throw ex;
+  }
+  await sdk.completeMultipartUpload(
+    filename,
+    checkpoint.uploadId,
+    checkpoint.parts.filter((p) => p.partNumber <= partNumber),
+  );
+  return hash?.digest('hex');
+}
+
+/**
+ * 使用 UploadPartCopy 分片复制大对象。
+ * @internal
+ */
+export async function copyLarge(
+  sdk: BaseObjectStorageSDK,
+  src: string,
+  dest: string,
+  info: ObjectInfo,
+  options: Omit<CopyObjectOptions, 'sourceBucket'>,
+): Promise<void> {
+  const uploadId = await sdk.initiateMultipartUpload(dest, {
+    ...(options.metadataDirective === 'REPLACE'
+      ? { headers: options.headers, contentType: options.contentType, metadata: options.metadata }
+      : {
+          contentType: info.contentType,
+          headers: info.contentEncoding ? { 'Content-Encoding': info.contentEncoding } : undefined,
+          metadata: info.metadata,
+        }),
+    storageClass: options.storageClass,
+    acl: options.acl,
+    encryption: options.encryption,
+  });
+  const parts: MultipartPart[] = [];
+  const pool = new ConcurrencyPool(DEFAULT_CONCURRENCY);
+  try {
+    for (let start = 0, partNumber = 1; start < info.size; start += COPY_PART_SIZE, partNumber++) {
+      const num = partNumber;
+      const end = Math.min(start + COPY_PART_SIZE, info.size) - 1;
+      await pool.add(async () => {
+        const etag = await sdk.uploadPartCopy(
+          dest,
+          uploadId,
+          num,
+          { key: src, start, end, encryption: options.sourceEncryption },
+          { encryption: options.encryption },
+        );
+        parts.push({ partNumber: num, etag, size: end - start + 1 });
+      });
+    }
+    await pool.drain();
+  } catch (ex) {
+    await pool.drain().catch(() => undefined);
+    await sdk.abortMultipartUpload(dest, uploadId).catch(() => undefined);
+    throw ex;
+  }
+  await sdk.completeMultipartUpload(
+    dest,
+    uploadId,
+    parts.sort((a, b) => a.partNumber - b.partNumber),
+  );
+}
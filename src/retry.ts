@@ -0,0 +1,63 @@
+import type { RetryOptions } from './common';
+import { ObjectStorageError, ThrottledError, TimeoutError } from './errors';
+
+/** @internal */
+export type NormalizedRetryOptions = Required<RetryOptions>;
+
+const DEFAULT_RETRY_OPTIONS: NormalizedRetryOptions = {
+  maxAttempts: 3,
+  baseDelay: 100,
+  maxDelay: 10000,
+  retryableStatus: [429, 500, 502, 503, 504],
+  retryableCodes: [
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ETIMEDOUT',
+    'EPIPE',
+    'EAI_AGAIN',
+    'ENETUNREACH',
+    'RequestTimeout',
+    'InternalError',
+    'ServiceUnavailable',
+  ],
+};
+
+/**
+ * 合并默认的重试策略，`false` 表示不重试。
+ * @internal
+ */
+export function normalizeRetryOptions(options?: RetryOptions | false): NormalizedRetryOptions {
+  if (options === false) {
+    return { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 };
+  }
+  return { ...DEFAULT_RETRY_OPTIONS, ...options };
+}
+
+/**
+ * 判断错误是否为临时性错误，可以重试。
+ * @internal
+ */
+export function isRetryableError(err: unknown, options: NormalizedRetryOptions): boolean {
+  if (!(err instanceof ObjectStorageError)) return false;
+  if (err instanceof ThrottledError || err instanceof TimeoutError) return true;
+  if (err.status !== undefined && options.retryableStatus.includes(err.status)) return true;
+  return options.retryableCodes.includes(err.code);
+}
+
+/**
+ * 计算第 attempt 次失败后的等待时间。优先使用服务端返回的 Retry-After，否则使用带随机抖动的指数退避。
+ * @internal
+ */
+export function getRetryDelay(attempt: number, err: unknown, options: NormalizedRetryOptions): number {
+  const retryAfter = err instanceof ObjectStorageError ? err.retryAfter : undefined;
+  if (retryAfter !== undefined) {
+    return Math.min(retryAfter, options.maxDelay);
+  }
+  const backoff = Math.min(options.maxDelay, options.baseDelay * 2 ** (attempt - 1));
+  return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+}
+
+/** @internal */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
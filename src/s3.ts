@@ -0,0 +1,474 @@
+import crypto from 'crypto';
+import { stat } from 'fs/promises';
+import type { OutgoingHttpHeaders } from 'http';
+import type { Transform } from 'stream';
+import type {
+  ObjectBody,
+  FetchResponse,
+  ReadObjectResult,
+  ReadObjectOptions,
+  WriteObjectOptions,
+  BaseSDKConfig,
+  SDKRequestOptions,
+  ListObjectsOptions,
+  ListObjectsResult,
+  ObjectInfo,
+  SignedUrlOptions,
+  PostPolicyOptions,
+  PostPolicyResult,
+  CopyObjectOptions,
+  CopyPartSource,
+  DeleteObjectsResult,
+  MultipartPart,
+  RestoreObjectOptions,
+  StorageClass,
+  UploadPartOptions,
+  HeadObjectOptions,
+  EncryptionDialect,
+} from './common';
+import type { CredentialProvider } from './credentials';
+import { resolveCredentialProvider } from './credentials';
+import { NotFoundError, ObjectStorageError, PreconditionFailedError, createObjectStorageError } from './errors';
+import {
+  BaseObjectStorageSDK,
+  EMPTY_OPTS,
+  buildPostPolicy,
+  getPostPolicyFields,
+  getReadHeaders,
+  toReadObjectResult,
+  getResponseHeaderQuery,
+  parseListBucketResult,
+  parseListPartsResult,
+  parseDeleteResult,
+  parseTaggingResult,
+  stringifyTags,
+  parseObjectInfo,
+  toVendorStorageClass,
+  getEncryptionHeaders,
+  getCustomerKeyHeaders,
+} from './common';
+import { SigV4Signer, STREAMING_PAYLOAD, UNSIGNED_PAYLOAD, getChunkedLength, sha256 } from './sigv4';
+import { encodeKey, openBody, stringifyQuery, toMetadataHeaders, trimETag } from './util';
+
+export interface S3SDKConfig extends BaseSDKConfig {
+  /** 例如 us-east-1，Cloudflare R2 为 auto */
+  region: string;
+  /**
+   * 上传 Readable 等流式请求体时的签名方式，Buffer 请求体总是签名完整的 sha256：
+   * - unsigned：使用 UNSIGNED-PAYLOAD，不对请求体签名，默认值
+   * - streaming：使用 aws-chunked 分块签名。需要事先知道请求体的长度，即请求体为本地文件路径，
+   *   或者在 headers 中指定了 Content-Length，否则仍然使用 UNSIGNED-PAYLOAD
+   */
+  payloadSigning?: 'unsigned' | 'streaming';
+}
+
+/** 归一化的存储类型与 S3 存储类型的对应关系 */
+const STORAGE_CLASSES: Record<StorageClass, string> = {
+  STANDARD: 'STANDARD',
+  IA: 'STANDARD_IA',
+  ARCHIVE: 'GLACIER',
+  COLD_ARCHIVE: 'DEEP_ARCHIVE',
+};
+
+/** S3 服务端加密的请求头 */
+const ENCRYPTION: EncryptionDialect = {
+  vendor: 's3',
+  prefix: 'x-amz-',
+  kmsAlgorithm: 'aws:kms',
+  kmsKeyIdHeader: 'x-amz-server-side-encryption-aws-kms-key-id',
+  customerKey: true,
+};
+
+/** aws-chunked 编码时每个分块的大小 */
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * 访问 AWS S3 以及 Cloudflare R2、Ceph 等兼容 S3 协议的存储，使用 V4 签名。
+ * 非 AWS 的存储需要指定 endpoint，通常还需要指定 pathStyle。
+ */
+export class S3ObjectStorageSDK extends BaseObjectStorageSDK {
+  private _config: S3SDKConfig;
+  private _signer: SigV4Signer;
+  private _credentials: CredentialProvider;
+  constructor(config: S3SDKConfig) {
+    super(config);
+    this._config = config;
+    this._signer = new SigV4Signer({ region: config.region, service: 's3' });
+    this._credentials = resolveCredentialProvider(config);
+  }
+  private _resolve(key: string): { host: string; path: string } {
+    return this._resolveAddress(`s3.${this._config.region}.amazonaws.com`, this._config.bucket, key);
+  }
+  /**
+   * 流式请求体的长度，未知时返回 undefined。
+   */
+  private async _getBodySize(req: SDKRequestOptions): Promise<number | undefined> {
+    if (typeof req.body === 'string') {
+      return (await stat(req.body)).size;
+    }
+    for (const k in req.headers) {
+      if (k.toLowerCase() === 'content-length') return Number(req.headers[k]);
+    }
+    return undefined;
+  }
+  private _request(req: SDKRequestOptions): Promise<FetchResponse> {
+    return this._withRetry(async () => {
+      const { host, path } = this._resolve(req.key);
+      const headers: OutgoingHttpHeaders = { ...req.headers, Host: this._getHostHeader(host) };
+      const body = req.body === undefined ? undefined : openBody(req.body);
+      let payloadHash = UNSIGNED_PAYLOAD;
+      if (body === undefined) {
+        payloadHash = sha256('');
+      } else if (Buffer.isBuffer(body)) {
+        payloadHash = sha256(body);
+      } else if (this._config.payloadSigning === 'streaming') {
+        const size = await this._getBodySize(req);
+        if (size !== undefined) {
+          // https://docs.aws.amazon.com/AmazonS3/latest/API/sigv4-streaming.html
+          payloadHash = STREAMING_PAYLOAD;
+          headers['Content-Encoding'] = ['aws-chunked', headers['Content-Encoding']].filter(Boolean).join(',');
+          headers['Content-Length'] = getChunkedLength(size, CHUNK_SIZE);
+          headers['x-amz-decoded-content-length'] = `${size}`;
+        }
+      }
+      const credentials = await this._credentials.getCredentials();
+      const date = new Date();
+      const encodedPath = encodeKey(path);
+      const signature = this._signer.signHeaders(
+        credentials,
+        { method: req.method, path: encodedPath, query: req.query, headers },
+        payloadHash,
+        date,
+      );
+      let bodyEncoder: Transform | undefined;
+      if (payloadHash === STREAMING_PAYLOAD) {
+        bodyEncoder = this._signer.createChunkEncoder(credentials, signature, date, CHUNK_SIZE);
+      }
+      const qs = stringifyQuery(req.query);
+      return this._fetchAsync({
+        method: req.method,
+        host,
+        path: `${encodedPath}${qs ? `?${qs}` : ''}`,
+        returnStream: req.returnStream ?? false,
+        headers,
+        body,
+        bodyEncoder,
+        limit: req.limit,
+        calcHash: req.calcHash,
+      });
+    }, this._isRetryableRequest(req));
+  }
+
+  async readObject(filename: string, options: ReadObjectOptions = EMPTY_OPTS): Promise<ReadObjectResult | null> {
+    if (options.decompress) {
+      return this._readDecompressed(filename, options);
+    }
+    try {
+      const { result } = await this._request({
+        method: 'GET',
+        key: filename,
+        headers: { ...getReadHeaders(options), ...getCustomerKeyHeaders(ENCRYPTION, options.encryption) },
+        returnStream: true,
+      });
+      return toReadObjectResult(result, 'x-amz-');
+    } catch (ex) {
+      if (ex instanceof ObjectStorageError && ex.status === 304) {
+        return { notModified: true };
+      }
+      if (ex instanceof NotFoundError && ex.code === 'NoSuchKey') {
+        // 文件不存在当成正常情况，返回 null。
+        return null;
+      }
+      throw ex;
+    }
+  }
+  async headObject(filename: string, options: HeadObjectOptions = EMPTY_OPTS): Promise<ObjectInfo | null> {
+    try {
+      const { result } = await this._request({
+        method: 'HEAD',
+        key: filename,
+        headers: getCustomerKeyHeaders(ENCRYPTION, options.encryption),
+        returnStream: true,
+      });
+      result?.body?.resume();
+      return parseObjectInfo(result?.responseHeaders ?? {}, 'x-amz-');
+    } catch (ex) {
+      if (ex instanceof NotFoundError) return null;
+      throw ex;
+    }
+  }
+  private _getWriteHeaders(options: WriteObjectOptions): OutgoingHttpHeaders {
+    const headers: OutgoingHttpHeaders = {
+      ...options.headers,
+      ...toMetadataHeaders('x-amz-meta-', options.metadata),
+      ...getEncryptionHeaders(ENCRYPTION, options.encryption),
+    };
+    if (options.contentEncoding) {
+      headers['Content-Encoding'] = options.contentEncoding;
+    }
+    if (options.contentType) {
+      headers['Content-Type'] = options.contentType;
+    }
+    if (options.tags) {
+      headers['x-amz-tagging'] = stringifyTags(options.tags);
+    }
+    if (options.storageClass) {
+      headers['x-amz-storage-class'] = toVendorStorageClass('s3', STORAGE_CLASSES, options.storageClass);
+    }
+    if (options.acl) {
+      headers['x-amz-acl'] = options.acl;
+    }
+    return headers;
+  }
+  async writeObject(
+    filename: string,
+    req: ObjectBody,
+    options: WriteObjectOptions = EMPTY_OPTS,
+  ): Promise<void | string> {
+    if (options.compress) {
+      return this._writeCompressed(filename, req, options);
+    }
+    // S3 的 PutObject 支持 If-None-Match: *，其它条件在本地检查，部分兼容 S3 的存储可能不支持。
+    await this._checkWritePrecondition(filename, {
+      ...options,
+      ifNoneMatch: options.ifNoneMatch === '*' ? undefined : options.ifNoneMatch,
+    });
+    const headers = this._getWriteHeaders(options);
+    if (options.ifNoneMatch === '*') {
+      headers['If-None-Match'] = '*';
+    }
+    try {
+      const { hash } = await this._request({
+        method: 'PUT',
+        key: filename,
+        body: req,
+        limit: options.limit,
+        calcHash: options.calcHash,
+        headers,
+      });
+      return hash;
+    } catch (ex) {
+      // 并发的条件写入冲突时返回 409 ConditionalRequestConflict
+      if (options.ifNoneMatch === '*' && ex instanceof ObjectStorageError && ex.status === 409) {
+        throw new PreconditionFailedError(ex.message, ex);
+      }
+      throw ex;
+    }
+  }
+
+  async deleteObject(filename: string): Promise<void> {
+    await this._request({ method: 'DELETE', key: filename });
+  }
+
+  protected async _deleteObjectsBatch(keys: string[]): Promise<DeleteObjectsResult> {
+    // https://docs.aws.amazon.com/AmazonS3/latest/API/API_DeleteObjects.html
+    const body = this._buildDeleteObjectsBody(keys);
+    const { result } = await this._request({
+      method: 'POST',
+      key: '',
+      query: { delete: '' },
+      headers: {
+        'Content-Type': 'application/xml',
+        'Content-MD5': crypto.createHash('md5').update(body).digest('base64'),
+      },
+      body,
+    });
+    return parseDeleteResult(result);
+  }
+  async listObjects(options: ListObjectsOptions = EMPTY_OPTS): Promise<ListObjectsResult> {
+    // https://docs.aws.amazon.com/AmazonS3/latest/API/API_ListObjectsV2.html
+    const query: Record<string, string> = { 'list-type': '2' };
+    if (options.prefix) query.prefix = options.prefix;
+    if (options.delimiter) query.delimiter = options.delimiter;
+    if (options.startAfter) query['start-after'] = options.startAfter;
+    if (options.maxKeys) query['max-keys'] = `${options.maxKeys}`;
+    if (options.continuationToken) query['continuation-token'] = options.continuationToken;
+    const { result } = await this._request({ method: 'GET', key: '', query });
+    return parseListBucketResult(result);
+  }
+
+  async putObjectTagging(filename: string, tags: Record<string, string>): Promise<void> {
+    // https://docs.aws.amazon.com/AmazonS3/latest/API/API_PutObjectTagging.html
+    const body = this._buildTaggingBody(tags);
+    await this._request({
+      method: 'PUT',
+      key: filename,
+      query: { tagging: '' },
+      headers: {
+        'Content-Type': 'application/xml',
+        'Content-MD5': crypto.createHash('md5').update(body).digest('base64'),
+      },
+      body,
+    });
+  }
+  async getObjectTagging(filename: string): Promise<Record<string, string>> {
+    const { result } = await this._request({ method: 'GET', key: filename, query: { tagging: '' } });
+    return parseTaggingResult(result);
+  }
+  async deleteObjectTagging(filename: string): Promise<void> {
+    await this._request({ method: 'DELETE', key: filename, query: { tagging: '' } });
+  }
+  async restoreObject(filename: string, options: RestoreObjectOptions = EMPTY_OPTS): Promise<void> {
+    // https://docs.aws.amazon.com/AmazonS3/latest/API/API_RestoreObject.html
+    const body = this._buildRestoreBody(options, 'GlacierJobParameters');
+    await this._request({
+      method: 'POST',
+      key: filename,
+      query: { restore: '' },
+      headers: {
+        'Content-Type': 'application/xml',
+        'Content-MD5': crypto.createHash('md5').update(body).digest('base64'),
+      },
+      body,
+    });
+  }
+
+  private _getCopySource(src: string, bucket = this._config.bucket): string {
+    return `/${bucket}/${encodeKey(src)}`;
+  }
+  async copyObject(src: string, dest: string, options: CopyObjectOptions = EMPTY_OPTS): Promise<void> {
+    // https://docs.aws.amazon.com/AmazonS3/latest/API/API_CopyObject.html
+    const headers: OutgoingHttpHeaders = {
+      ...options.headers,
+      ...toMetadataHeaders('x-amz-meta-', options.metadata),
+      ...getEncryptionHeaders(ENCRYPTION, options.encryption),
+      ...getCustomerKeyHeaders(ENCRYPTION, options.sourceEncryption, true),
+      'x-amz-copy-source': this._getCopySource(src, options.sourceBucket),
+      'x-amz-metadata-directive': options.metadataDirective ?? 'COPY',
+    };
+    if (options.contentType) {
+      headers['Content-Type'] = options.contentType;
+    }
+    if (options.storageClass) {
+      headers['x-amz-storage-class'] = toVendorStorageClass('s3', STORAGE_CLASSES, options.storageClass);
+    }
+    if (options.acl) {
+      headers['x-amz-acl'] = options.acl;
+    }
+    const { result } = await this._request({ method: 'PUT', key: dest, headers });
+    if (result?.Error) {
+      // 复制请求可能返回 200 但响应体为错误信息
+      throw createObjectStorageError(result.Error.Message ?? result.Error.Code, {
+        code: result.Error.Code,
+        requestId: result.Error.RequestId,
+      });
+    }
+  }
+  async getSignedUrl(filename: string, options: SignedUrlOptions = EMPTY_OPTS): Promise<string> {
+    const { host, path } = this._resolve(filename);
+    const headers: OutgoingHttpHeaders = { Host: this._getHostHeader(host) };
+    if (options.contentType) {
+      headers['Content-Type'] = options.contentType;
+    }
+    const query = this._signer.presign(
+      await this._credentials.getCredentials(),
+      {
+        method: options.method ?? 'GET',
+        path: encodeKey(path),
+        query: getResponseHeaderQuery(options.responseHeaders),
+        headers,
+      },
+      options.expires ?? 3600,
+    );
+    return this._buildUrl(host, path, query);
+  }
+  async createPostPolicy(options: PostPolicyOptions): Promise<PostPolicyResult> {
+    // https://docs.aws.amazon.com/AmazonS3/latest/API/sigv4-HTTPPOSTConstructPolicy.html
+    const credentials = await this._credentials.getCredentials();
+    const amzFields = this._signer.getPostPolicyFields(credentials);
+    const { policy } = buildPostPolicy(
+      this._config.bucket,
+      options,
+      Object.keys(amzFields).map((k) => ({ [k]: amzFields[k] })),
+    );
+    const { host, path } = this._resolve('');
+    return {
+      url: this._buildUrl(host, path),
+      fields: {
+        ...getPostPolicyFields(options),
+        ...amzFields,
+        policy,
+        'x-amz-signature': this._signer.signPolicy(credentials, policy, amzFields['x-amz-date']),
+      },
+    };
+  }
+  async initiateMultipartUpload(filename: string, options: WriteObjectOptions = EMPTY_OPTS): Promise<string> {
+    const { result } = await this._request({
+      method: 'POST',
+      key: filename,
+      query: { uploads: '' },
+      headers: this._getWriteHeaders(options),
+    });
+    return (result?.InitiateMultipartUploadResult as { UploadId: string }).UploadId;
+  }
+  async uploadPart(
+    filename: string,
+    uploadId: string,
+    partNumber: number,
+    body: Buffer,
+    options: UploadPartOptions = EMPTY_OPTS,
+  ): Promise<string> {
+    const { result } = await this._request({
+      method: 'PUT',
+      key: filename,
+      query: { partNumber: `${partNumber}`, uploadId },
+      headers: getCustomerKeyHeaders(ENCRYPTION, options.encryption),
+      body,
+      returnStream: true,
+    });
+    result?.body?.resume();
+    return trimETag(result?.responseHeaders?.etag);
+  }
+  async uploadPartCopy(
+    dest: string,
+    uploadId: string,
+    partNumber: number,
+    source: CopyPartSource,
+    options: UploadPartOptions = EMPTY_OPTS,
+  ): Promise<string> {
+    const { result } = await this._request({
+      method: 'PUT',
+      key: dest,
+      query: { partNumber: `${partNumber}`, uploadId },
+      headers: {
+        'x-amz-copy-source': this._getCopySource(source.key, source.bucket),
+        'x-amz-copy-source-range': `bytes=${source.start}-${source.end}`,
+        ...getCustomerKeyHeaders(ENCRYPTION, source.encryption, true),
+        ...getCustomerKeyHeaders(ENCRYPTION, options.encryption),
+      },
+    });
+    return trimETag((result?.CopyPartResult as { ETag: string } | undefined)?.ETag);
+  }
+  async completeMultipartUpload(filename: string, uploadId: string, parts: MultipartPart[]): Promise<void> {
+    const { result } = await this._request({
+      method: 'POST',
+      key: filename,
+      query: { uploadId },
+      headers: { 'Content-Type': 'application/xml' },
+      body: this._buildCompleteMultipartBody(parts),
+    });
+    if (result?.Error) {
+      // 与 CopyObject 一样，可能返回 200 但响应体为错误信息
+      throw createObjectStorageError(result.Error.Message ?? result.Error.Code, {
+        code: result.Error.Code,
+        requestId: result.Error.RequestId,
+      });
+    }
+  }
+  async abortMultipartUpload(filename: string, uploadId: string): Promise<void> {
+    await this._request({ method: 'DELETE', key: filename, query: { uploadId } });
+  }
+  async listParts(filename: string, uploadId: string): Promise<MultipartPart[]> {
+    const parts: MultipartPart[] = [];
+    let marker: string | undefined;
+    do {
+      const query: Record<string, string> = { uploadId };
+      if (marker) query['part-number-marker'] = marker;
+      const { result } = await this._request({ method: 'GET', key: filename, query });
+      const page = parseListPartsResult(result);
+      parts.push(...page.parts);
+      marker = page.nextPartNumberMarker;
+    } while (marker);
+    return parts;
+  }
+}
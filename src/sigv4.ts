@@ -0,0 +1,249 @@
+import { createHash, createHmac } from 'crypto';
+import type { OutgoingHttpHeaders } from 'http';
+import type { TransformCallback } from 'stream';
+import { Transform } from 'stream';
+import type { Credentials } from './credentials';
+import { uriEncode } from './util';
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+/** 不校验请求体时的 x-amz-content-sha256 */
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD';
+/** 使用 aws-chunked 分块签名时的 x-amz-content-sha256 */
+export const STREAMING_PAYLOAD = 'STREAMING-AWS4-HMAC-SHA256-PAYLOAD';
+/** 不参与签名的请求头，这些请求头可能被 node 或代理修改 */
+const UNSIGNED_HEADERS = new Set([
+  'authorization',
+  'connection',
+  'content-length',
+  'expect',
+  'transfer-encoding',
+  'user-agent',
+]);
+
+/** @internal */
+export function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+const EMPTY_SHA256 = sha256('');
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * 转换为 V4 签名使用的时间格式，例如 `20130524T000000Z`。
+ * @internal
+ */
+export function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+}
+
+/**
+ * 计算 aws-chunked 编码后的请求体长度。
+ * @param size 编码前的长度
+ * @internal
+ */
+export function getChunkedLength(size: number, chunkSize: number): number {
+  // `${hex(size)};chunk-signature=${signature}\r\n${data}\r\n`
+  const overhead = ';chunk-signature='.length + 64 + 4;
+  const chunkLength = (n: number) => n.toString(16).length + overhead + n;
+  const rest = size % chunkSize;
+  return Math.floor(size / chunkSize) * chunkLength(chunkSize) + (rest ? chunkLength(rest) : 0) + chunkLength(0);
+}
+
+/** @internal */
+export type SigV4Config = {
+  region: string;
+  /** 例如 s3 */
+  service: string;
+};
+
+/**
+ * 需要签名的请求，path 为实际发送的、已编码的路径。
+ * @internal
+ */
+export type SigV4Request = {
+  method: string;
+  path: string;
+  query?: Record<string, string>;
+  /** 必须包含 Host */
+  headers: OutgoingHttpHeaders;
+};
+
+/**
+ * AWS Signature Version 4，见 https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-authenticating-requests.html
+ * @internal
+ */
+export class SigV4Signer {
+  private _config: SigV4Config;
+  private _signingKey?: { date: string; secretKey: string; key: Buffer };
+  constructor(config: SigV4Config) {
+    this._config = config;
+  }
+
+  private _getSigningKey(secretKey: string, date: string): Buffer {
+    // 签名密钥只与日期和 secretKey 有关，缓存当天的结果
+    if (this._signingKey?.date !== date || this._signingKey.secretKey !== secretKey) {
+      const { region, service } = this._config;
+      const key = [date, region, service, 'aws4_request'].reduce<Buffer | string>(
+        (k, data) => hmac(k, data),
+        `AWS4${secretKey}`,
+      ) as Buffer;
+      this._signingKey = { date, secretKey, key };
+    }
+    return this._signingKey.key;
+  }
+  private _getScope(amzDate: string): string {
+    return `${amzDate.slice(0, 8)}/${this._config.region}/${this._config.service}/aws4_request`;
+  }
+  private _sign(secretKey: string, amzDate: string, stringToSign: string): string {
+    return hmac(this._getSigningKey(secretKey, amzDate.slice(0, 8)), stringToSign).toString('hex');
+  }
+  /**
+   * 计算签名，返回签名和参与签名的请求头列表。
+   */
+  private _signRequest(
+    credentials: Credentials,
+    req: SigV4Request,
+    payloadHash: string,
+    amzDate: string,
+  ): { signature: string; signedHeaders: string } {
+    const headers: Record<string, string> = {};
+    for (const k in req.headers) {
+      const lk = k.toLowerCase();
+      const v = req.headers[k];
+      if (UNSIGNED_HEADERS.has(lk) || v === undefined) continue;
+      headers[lk] = (Array.isArray(v) ? v.join(',') : `${v}`).trim().replace(/\s+/g, ' ');
+    }
+    const names = Object.keys(headers).sort();
+    const signedHeaders = names.join(';');
+    const query = req.query ?? {};
+    const canonicalRequest = [
+      req.method,
+      req.path,
+      // 按编码后的参数名排序，不能对 `k=v` 排序，否则 `a-b` 会排在 `a` 之前
+      Object.keys(query)
+        .map((k) => [uriEncode(k), uriEncode(query[k])])
+        .sort((a, b) => (a[0] < b[0] ? -1 : 1))
+        .map(([k, v]) => `${k}=${v}`)
+        .join('&'),
+      names.map((k) => `${k}:${headers[k]}\n`).join(''),
+      signedHeaders,
+      payloadHash,
+    ].join('\n');
+    const stringToSign = [ALGORITHM, amzDate, this._getScope(amzDate), sha256(canonicalRequest)].join('\n');
+    return { signature: this._sign(credentials.secretKey, amzDate, stringToSign), signedHeaders };
+  }
+
+  /**
+   * 在请求头中添加 x-amz-date、x-amz-content-sha256、x-amz-security-token 和 Authorization，返回签名。
+   * 使用 aws-chunked 编码时，返回的签名是第一个分块的 seed signature。
+   */
+  signHeaders(credentials: Credentials, req: SigV4Request, payloadHash: string, date = new Date()): string {
+    const amzDate = toAmzDate(date);
+    req.headers['x-amz-date'] = amzDate;
+    req.headers['x-amz-content-sha256'] = payloadHash;
+    if (credentials.securityToken) {
+      req.headers['x-amz-security-token'] = credentials.securityToken;
+    }
+    const { signature, signedHeaders } = this._signRequest(credentials, req, payloadHash, amzDate);
+    req.headers.Authorization =
+      `${ALGORITHM} Credential=${credentials.accessKey}/${this._getScope(amzDate)}, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+    return signature;
+  }
+  /**
+   * 生成预签名 url 的 query 参数（包含 req.query）。
+   * @param expires 有效期，以秒计数
+   */
+  presign(credentials: Credentials, req: SigV4Request, expires: number, date = new Date()): Record<string, string> {
+    const amzDate = toAmzDate(date);
+    const names = Object.keys(req.headers)
+      .map((k) => k.toLowerCase())
+      .filter((k) => !UNSIGNED_HEADERS.has(k))
+      .sort();
+    const query: Record<string, string> = {
+      ...req.query,
+      'X-Amz-Algorithm': ALGORITHM,
+      'X-Amz-Credential': `${credentials.accessKey}/${this._getScope(amzDate)}`,
+      'X-Amz-Date': amzDate,
+      'X-Amz-Expires': `${expires}`,
+      'X-Amz-SignedHeaders': names.join(';'),
+    };
+    if (credentials.securityToken) {
+      query['X-Amz-Security-Token'] = credentials.securityToken;
+    }
+    const { signature } = this._signRequest(credentials, { ...req, query }, UNSIGNED_PAYLOAD, amzDate);
+    return { ...query, 'X-Amz-Signature': signature };
+  }
+  /**
+   * 生成表单上传需要的字段，policy 的 conditions 中需要包含这些字段。
+   */
+  getPostPolicyFields(credentials: Credentials, date = new Date()): Record<string, string> {
+    const amzDate = toAmzDate(date);
+    const fields: Record<string, string> = {
+      'x-amz-algorithm': ALGORITHM,
+      'x-amz-credential': `${credentials.accessKey}/${this._getScope(amzDate)}`,
+      'x-amz-date': amzDate,
+    };
+    if (credentials.securityToken) {
+      fields['x-amz-security-token'] = credentials.securityToken;
+    }
+    return fields;
+  }
+  /**
+   * 对 base64 编码后的表单上传 policy 签名。
+   */
+  signPolicy(credentials: Credentials, policy: string, amzDate: string): string {
+    return this._sign(credentials.secretKey, amzDate, policy);
+  }
+  /**
+   * 创建 aws-chunked 编码的 Transform，每个分块都带有签名。
+   * @param seedSignature signHeaders 返回的签名
+   * @param chunkSize 除最后一块外每块的大小，至少为 8KB
+   */
+  createChunkEncoder(credentials: Credentials, seedSignature: string, date: Date, chunkSize: number): Transform {
+    const amzDate = toAmzDate(date);
+    const scope = this._getScope(amzDate);
+    let previous = seedSignature;
+    let buffers: Buffer[] = [];
+    let buffered = 0;
+    const signChunk = (data: Buffer) => {
+      previous = this._sign(
+        credentials.secretKey,
+        amzDate,
+        [`${ALGORITHM}-PAYLOAD`, amzDate, scope, previous, EMPTY_SHA256, sha256(data)].join('\n'),
+      );
+      return Buffer.concat([
+        Buffer.from(`${data.length.toString(16)};chunk-signature=${previous}\r\n`),
+        data,
+        Buffer.from('\r\n'),
+      ]);
+    };
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback: TransformCallback) {
+        buffers.push(chunk);
+        buffered += chunk.length;
+        if (buffered < chunkSize) {
+          callback();
+          return;
+        }
+        let data = Buffer.concat(buffers);
+        const out: Buffer[] = [];
+        while (data.length >= chunkSize) {
+          out.push(signChunk(data.subarray(0, chunkSize)));
+          data = data.subarray(chunkSize);
+        }
+        buffers = [data];
+        buffered = data.length;
+        callback(null, Buffer.concat(out));
+      },
+      flush(callback: TransformCallback) {
+        const rest = Buffer.concat(buffers);
+        const out = rest.length ? [signChunk(rest)] : [];
+        out.push(signChunk(Buffer.alloc(0)));
+        callback(null, Buffer.concat(out));
+      },
+    });
+  }
+}
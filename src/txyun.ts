@@ -1,14 +1,68 @@
 import crypto from 'crypto';
 import type { OutgoingHttpHeaders } from 'http';
 import type {
-  Readable,
-  FetchResult,
-  FetchOptions,
+  ObjectBody,
+  FetchResponse,
   ReadObjectResult,
+  ReadObjectOptions,
   WriteObjectOptions,
   BaseSDKConfig,
+  SDKRequestOptions,
+  ListObjectsOptions,
+  ListObjectsResult,
+  ObjectInfo,
+  SignedUrlOptions,
+  PostPolicyOptions,
+  PostPolicyResult,
+  CopyObjectOptions,
+  CopyPartSource,
+  DeleteObjectsResult,
+  MultipartPart,
+  RestoreObjectOptions,
+  StorageClass,
+  UploadPartOptions,
+  HeadObjectOptions,
+  EncryptionDialect,
 } from './common';
-import { BaseObjectStorageSDK, EMPTY_OPTS } from './common';
+import type { CredentialProvider, Credentials } from './credentials';
+import { resolveCredentialProvider } from './credentials';
+import { NotFoundError, ObjectStorageError, PreconditionFailedError, createObjectStorageError } from './errors';
+import {
+  BaseObjectStorageSDK,
+  EMPTY_OPTS,
+  buildPostPolicy,
+  getPostPolicyFields,
+  getReadHeaders,
+  toReadObjectResult,
+  getResponseHeaderQuery,
+  parseListBucketResult,
+  parseListPartsResult,
+  parseDeleteResult,
+  parseTaggingResult,
+  stringifyTags,
+  parseObjectInfo,
+  toVendorStorageClass,
+  getEncryptionHeaders,
+  getCustomerKeyHeaders,
+} from './common';
+import { encodeKey, openBody, stringifyQuery, toMetadataHeaders, trimETag } from './util';
+
+/** 归一化的存储类型与 COS 存储类型的对应关系 */
+const STORAGE_CLASSES: Record<StorageClass, string> = {
+  STANDARD: 'STANDARD',
+  IA: 'STANDARD_IA',
+  ARCHIVE: 'ARCHIVE',
+  COLD_ARCHIVE: 'DEEP_ARCHIVE',
+};
+
+/** COS 服务端加密的请求头 */
+const ENCRYPTION: EncryptionDialect = {
+  vendor: 'txyun',
+  prefix: 'x-cos-',
+  kmsAlgorithm: 'cos/kms',
+  kmsKeyIdHeader: 'x-cos-server-side-encryption-cos-kms-key-id',
+  customerKey: true,
+};
 
 function getObjectKeys(obj: Record<string, unknown>): string[] {
   const list = Object.keys(obj);
@@ -47,26 +101,37 @@ export interface TxyunSDKConfig extends BaseSDKConfig {
 }
 export class TxyunObjectStorageSDK extends BaseObjectStorageSDK {
   private _config: TxyunSDKConfig;
+  private _credentials: CredentialProvider;
   constructor(config: TxyunSDKConfig) {
     super(config);
     this._config = config;
+    this._credentials = resolveCredentialProvider(config);
   }
-  private _getAuth(method: string, path: string, headers: OutgoingHttpHeaders | undefined): string {
-    const secretId = this._config.accessKey;
-    const secretKey = this._config.secretKey;
+  private _getAuth(
+    credentials: Credentials,
+    method: string,
+    path: string,
+    headers: OutgoingHttpHeaders | undefined,
+    query?: Record<string, string>,
+    /** 签名有效期，以秒计数 */
+    expires = 900,
+  ): string {
+    const secretId = credentials.accessKey;
+    const { secretKey } = credentials;
 
     // 签名有效起止时间
     const now = ((Date.now() / 1000) | 0) - 1;
-    const keyTime = `${now};${now + 900}`;
+    const keyTime = `${now};${now + expires}`;
     const headerList = headers ? getObjectKeys(headers).join(';').toLowerCase() : '';
-    const paramList = ''; // getObjectKeys(queryParams).join(';').toLowerCase();
+    const paramList = query ? getObjectKeys(query).join(';').toLowerCase() : '';
 
     // 签名算法说明文档：https://www.qcloud.com/document/product/436/7778
     // 步骤一：计算 SignKey
     const signKey = crypto.createHmac('sha1', secretKey).update(keyTime).digest('hex');
 
     // 步骤二：构成 FormatString
-    const formatString = `${method.toLowerCase()}\n${path}\n` + `\n${headers ? obj2str(headers) : ''}\n`;
+    const formatString =
+      `${method.toLowerCase()}\n${path}\n` + `${query ? obj2str(query) : ''}\n${headers ? obj2str(headers) : ''}\n`;
     // formatString = Buffer.from(formatString, 'utf8');
 
     // 步骤三：计算 StringToSign
@@ -82,102 +147,351 @@ export class TxyunObjectStorageSDK extends BaseObjectStorageSDK {
       `&q-ak=${secretId}&q-sign-time=${keyTime}&q-key-time=${keyTime}&q-header-list=${headerList}&q-url-param-list=${paramList}&q-signature=${signature}`
     );
   }
-  readObject(filename: string): Promise<ReadObjectResult | null> {
-    return new Promise((resolve, reject) => {
-      const path = `/${filename}`;
-      const options: FetchOptions = {
+  private _request(req: SDKRequestOptions): Promise<FetchResponse> {
+    return this._withRetry(async () => {
+      const credentials = await this._credentials.getCredentials();
+      const { host, path } = this._resolveAddress(
+        `cos.${this._config.region}.myqcloud.com`,
+        `${this._config.bucket}-${this._config.appId}`,
+        req.key,
+      );
+      const headers: OutgoingHttpHeaders = { ...req.headers };
+      headers.Authorization = this._getAuth(credentials, req.method, path, req.headers, req.query);
+      if (credentials.securityToken) {
+        // 临时凭证的 token 不需要参与签名
+        headers['x-cos-security-token'] = credentials.securityToken;
+      }
+      const qs = stringifyQuery(req.query);
+      return this._fetchAsync({
+        method: req.method,
+        host,
+        path: `${encodeKey(path)}${qs ? `?${qs}` : ''}`,
+        returnStream: req.returnStream ?? false,
+        headers,
+        body: req.body === undefined ? undefined : openBody(req.body),
+        limit: req.limit,
+        calcHash: req.calcHash,
+      });
+    }, this._isRetryableRequest(req));
+  }
+  async readObject(filename: string, options: ReadObjectOptions = EMPTY_OPTS): Promise<ReadObjectResult | null> {
+    if (options.decompress) {
+      return this._readDecompressed(filename, options);
+    }
+    try {
+      const { result } = await this._request({
         method: 'GET',
-        host: `${this._config.bucket}-${this._config.appId}.cos.${this._config.region}.myqcloud.com`,
-        path,
+        key: filename,
+        headers: { ...getReadHeaders(options), ...getCustomerKeyHeaders(ENCRYPTION, options.encryption) },
         returnStream: true,
-        headers: {
-          Authorization: this._getAuth('GET', path, undefined),
-        },
-      };
-      this._fetch(options, (err: Error, result: FetchResult) => {
-        if (!err) {
-          return resolve({
-            headers: result.headers,
-            stream: result.body,
-          });
-        }
-        if (!result?.Error) {
-          return reject(err);
-        }
-        if (result.Error.Code === 'NoSuchKey') {
-          // 文件不存在也当成正常情况返回。业务层直接 req.end()。
-          // 业务层新建面板后，可能从来没有上传过面板数据。
-          return resolve(null);
-        }
-        reject(err);
       });
-    });
-  }
-  writeObject(filename: string, req: Readable, options: WriteObjectOptions = EMPTY_OPTS): Promise<void | string> {
-    return new Promise((resolve, reject) => {
-      const path = `/${filename}`;
-      const headers: OutgoingHttpHeaders = {
-        ...options.headers,
-        Authorization: this._getAuth('PUT', path, options.headers),
-      };
-      if (options.contentEncoding) {
-        headers['Content-Encoding'] = options.contentEncoding;
+      return toReadObjectResult(result, 'x-cos-');
+    } catch (ex) {
+      if (ex instanceof ObjectStorageError && ex.status === 304) {
+        return { notModified: true };
       }
-      if (options.contentType) {
-        headers['Content-Type'] = options.contentType;
+      if (ex instanceof NotFoundError && ex.code === 'NoSuchKey') {
+        // 文件不存在也当成正常情况返回。业务层直接 req.end()。
+        // 业务层新建面板后，可能从来没有上传过面板数据。
+        return null;
       }
-      const fetchOptions: FetchOptions = {
+      throw ex;
+    }
+  }
+  async headObject(filename: string, options: HeadObjectOptions = EMPTY_OPTS): Promise<ObjectInfo | null> {
+    try {
+      const { result } = await this._request({
+        method: 'HEAD',
+        key: filename,
+        headers: getCustomerKeyHeaders(ENCRYPTION, options.encryption),
+        returnStream: true,
+      });
+      result?.body?.resume();
+      return parseObjectInfo(result?.responseHeaders ?? {}, 'x-cos-');
+    } catch (ex) {
+      if (ex instanceof NotFoundError) return null;
+      throw ex;
+    }
+  }
+  private _getWriteHeaders(options: WriteObjectOptions): OutgoingHttpHeaders {
+    const headers: OutgoingHttpHeaders = {
+      ...options.headers,
+      ...toMetadataHeaders('x-cos-meta-', options.metadata),
+      ...getEncryptionHeaders(ENCRYPTION, options.encryption),
+    };
+    if (options.contentEncoding) {
+      headers['Content-Encoding'] = options.contentEncoding;
+    }
+    if (options.contentType) {
+      headers['Content-Type'] = options.contentType;
+    }
+    if (options.ifNoneMatch === '*') {
+      headers['x-cos-forbid-overwrite'] = 'true';
+    }
+    if (options.tags) {
+      headers['x-cos-tagging'] = stringifyTags(options.tags);
+    }
+    if (options.storageClass) {
+      headers['x-cos-storage-class'] = toVendorStorageClass('txyun', STORAGE_CLASSES, options.storageClass);
+    }
+    if (options.acl) {
+      headers['x-cos-acl'] = options.acl;
+    }
+    return headers;
+  }
+  async writeObject(
+    filename: string,
+    req: ObjectBody,
+    options: WriteObjectOptions = EMPTY_OPTS,
+  ): Promise<void | string> {
+    if (options.compress) {
+      return this._writeCompressed(filename, req, options);
+    }
+    // COS 只支持通过 x-cos-forbid-overwrite 实现“仅在不存在时创建”，其它条件在本地检查。
+    await this._checkWritePrecondition(filename, {
+      ...options,
+      ifNoneMatch: options.ifNoneMatch === '*' ? undefined : options.ifNoneMatch,
+    });
+    try {
+      const { hash } = await this._request({
         method: 'PUT',
-        path,
-        host: `${this._config.bucket}-${this._config.appId}.cos.${this._config.region}.myqcloud.com`,
-        headers,
-        returnStream: false,
+        key: filename,
+        headers: this._getWriteHeaders(options),
         body: req,
         limit: options.limit,
         calcHash: options.calcHash,
-      };
-
-      this._fetch(fetchOptions, (err, result, reqBodyHash) => {
-        if (!err) {
-          // logger.debug(result);
-          return resolve(reqBodyHash);
-        }
-        // if (err === ABORTED_ERR || err === TOO_LARGE_ERR) {
-        //   // 不需要打印日志
-        //   // console.log(err);
-        // } else if (!result || !result.Error) {
-        //   logger.serror('TX-OSS', err);
-        // } else {
-        //   logger.serror('TX-OSS', JSON.stringify(result.Error));
-        // }
-        reject(result?.Error ?? err);
       });
+      return hash;
+    } catch (ex) {
+      if (options.ifNoneMatch === '*' && ex instanceof ObjectStorageError && ex.status === 409) {
+        throw new PreconditionFailedError(ex.message, ex);
+      }
+      throw ex;
+    }
+  }
+  async deleteObject(filename: string): Promise<void> {
+    await this._request({ method: 'DELETE', key: filename });
+  }
+  protected async _deleteObjectsBatch(keys: string[]): Promise<DeleteObjectsResult> {
+    // https://cloud.tencent.com/document/product/436/8289
+    const body = this._buildDeleteObjectsBody(keys);
+    const { result } = await this._request({
+      method: 'POST',
+      key: '',
+      query: { delete: '' },
+      headers: {
+        'Content-Type': 'application/xml',
+        'Content-MD5': crypto.createHash('md5').update(body).digest('base64'),
+      },
+      body,
+    });
+    return parseDeleteResult(result);
+  }
+  async listObjects(options: ListObjectsOptions = EMPTY_OPTS): Promise<ListObjectsResult> {
+    // https://cloud.tencent.com/document/product/436/7734
+    const query: Record<string, string> = {};
+    if (options.prefix) query.prefix = options.prefix;
+    if (options.delimiter) query.delimiter = options.delimiter;
+    const marker = options.continuationToken ?? options.startAfter;
+    if (marker) query.marker = marker;
+    if (options.maxKeys) query['max-keys'] = `${options.maxKeys}`;
+    const { result } = await this._request({ method: 'GET', key: '', query });
+    return parseListBucketResult(result);
+  }
+
+  async putObjectTagging(filename: string, tags: Record<string, string>): Promise<void> {
+    const body = this._buildTaggingBody(tags);
+    await this._request({
+      method: 'PUT',
+      key: filename,
+      query: { tagging: '' },
+      headers: {
+        'Content-Type': 'application/xml',
+        'Content-MD5': crypto.createHash('md5').update(body).digest('base64'),
+      },
+      body,
+    });
+  }
+  async getObjectTagging(filename: string): Promise<Record<string, string>> {
+    const { result } = await this._request({ method: 'GET', key: filename, query: { tagging: '' } });
+    return parseTaggingResult(result);
+  }
+  async deleteObjectTagging(filename: string): Promise<void> {
+    await this._request({ method: 'DELETE', key: filename, query: { tagging: '' } });
+  }
+  async restoreObject(filename: string, options: RestoreObjectOptions = EMPTY_OPTS): Promise<void> {
+    // https://cloud.tencent.com/document/product/436/12633
+    const body = this._buildRestoreBody(options, 'CASJobParameters');
+    await this._request({
+      method: 'POST',
+      key: filename,
+      query: { restore: '' },
+      headers: {
+        'Content-Type': 'application/xml',
+        'Content-MD5': crypto.createHash('md5').update(body).digest('base64'),
+      },
+      body,
     });
   }
-  deleteObject(filename: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const path = `/${filename}`;
-      const options: FetchOptions = {
-        method: 'DELETE',
-        host: `${this._config.bucket}-${this._config.appId}.cos.${this._config.region}.myqcloud.com`,
-        path,
-        headers: {
-          Authorization: this._getAuth('DELETE', path, undefined),
-        },
-        returnStream: false,
-      };
-      this._fetch(options, (err, result) => {
-        if (!err) {
-          // logger.debug(result);
-          return resolve();
-        }
-        // if (!result || !result.Error) {
-        //   logger.serror('TX-OSS', err);
-        // } else {
-        //   logger.serror('TX-OSS', JSON.stringify(result.Error));
-        // }
-        reject(result?.Error ?? err);
+
+  private _getCopySource(src: string, bucket = this._config.bucket): string {
+    const { host, path } = this._resolveAddress(
+      `cos.${this._config.region}.myqcloud.com`,
+      `${bucket}-${this._config.appId}`,
+      src,
+    );
+    return `${host}${encodeKey(path)}`;
+  }
+  async copyObject(src: string, dest: string, options: CopyObjectOptions = EMPTY_OPTS): Promise<void> {
+    // https://cloud.tencent.com/document/product/436/10881
+    const headers: OutgoingHttpHeaders = {
+      ...options.headers,
+      ...toMetadataHeaders('x-cos-meta-', options.metadata),
+      ...getEncryptionHeaders(ENCRYPTION, options.encryption),
+      ...getCustomerKeyHeaders(ENCRYPTION, options.sourceEncryption, true),
+      'x-cos-copy-source': this._getCopySource(src, options.sourceBucket),
+      'x-cos-metadata-directive': options.metadataDirective === 'REPLACE' ? 'Replaced' : 'Copy',
+    };
+    if (options.contentType) {
+      headers['Content-Type'] = options.contentType;
+    }
+    if (options.storageClass) {
+      headers['x-cos-storage-class'] = toVendorStorageClass('txyun', STORAGE_CLASSES, options.storageClass);
+    }
+    if (options.acl) {
+      headers['x-cos-acl'] = options.acl;
+    }
+    const { result } = await this._request({ method: 'PUT', key: dest, headers });
+    if (result?.Error) {
+      // 复制请求可能返回 200 但响应体为错误信息
+      throw createObjectStorageError(result.Error.Message ?? result.Error.Code, {
+        code: result.Error.Code,
+        requestId: result.Error.RequestId,
       });
+    }
+  }
+  async getSignedUrl(filename: string, options: SignedUrlOptions = EMPTY_OPTS): Promise<string> {
+    const method = options.method ?? 'GET';
+    const query = getResponseHeaderQuery(options.responseHeaders);
+    const headers: OutgoingHttpHeaders | undefined = options.contentType
+      ? { 'Content-Type': options.contentType }
+      : undefined;
+    const { host, path } = this._resolveAddress(
+      `cos.${this._config.region}.myqcloud.com`,
+      `${this._config.bucket}-${this._config.appId}`,
+      filename,
+    );
+    // https://cloud.tencent.com/document/product/436/35651
+    // 签名参数直接附加在 url 上，形式与 Authorization 头相同。
+    const credentials = await this._credentials.getCredentials();
+    const auth = this._getAuth(credentials, method, path, headers, query, options.expires ?? 3600);
+    const url = this._buildUrl(host, path, query);
+    const token = credentials.securityToken
+      ? `&x-cos-security-token=${encodeURIComponent(credentials.securityToken)}`
+      : '';
+    return `${url}${url.includes('?') ? '&' : '?'}${auth}${token}`;
+  }
+  async createPostPolicy(options: PostPolicyOptions): Promise<PostPolicyResult> {
+    // https://cloud.tencent.com/document/product/436/14690
+    const bucket = `${this._config.bucket}-${this._config.appId}`;
+    const now = ((Date.now() / 1000) | 0) - 1;
+    const keyTime = `${now};${now + (options.expires ?? 3600)}`;
+    const credentials = await this._credentials.getCredentials();
+    const tokenFields: Record<string, string> = credentials.securityToken
+      ? { 'x-cos-security-token': credentials.securityToken }
+      : {};
+    const { policy, json } = buildPostPolicy(bucket, options, [
+      { 'q-sign-algorithm': 'sha1' },
+      { 'q-ak': credentials.accessKey },
+      { 'q-sign-time': keyTime },
+      ...Object.keys(tokenFields).map((k) => ({ [k]: tokenFields[k] })),
+    ]);
+    const signKey = crypto.createHmac('sha1', credentials.secretKey).update(keyTime).digest('hex');
+    const stringToSign = crypto.createHash('sha1').update(json).digest('hex');
+    const { host, path } = this._resolveAddress(`cos.${this._config.region}.myqcloud.com`, bucket, '');
+    return {
+      url: this._buildUrl(host, path),
+      fields: {
+        ...getPostPolicyFields(options),
+        ...tokenFields,
+        policy,
+        'q-sign-algorithm': 'sha1',
+        'q-ak': credentials.accessKey,
+        'q-key-time': keyTime,
+        'q-signature': crypto.createHmac('sha1', signKey).update(stringToSign).digest('hex'),
+      },
+    };
+  }
+  async initiateMultipartUpload(filename: string, options: WriteObjectOptions = EMPTY_OPTS): Promise<string> {
+    const { result } = await this._request({
+      method: 'POST',
+      key: filename,
+      query: { uploads: '' },
+      headers: this._getWriteHeaders(options),
     });
+    return (result?.InitiateMultipartUploadResult as { UploadId: string }).UploadId;
+  }
+  async uploadPart(
+    filename: string,
+    uploadId: string,
+    partNumber: number,
+    body: Buffer,
+    options: UploadPartOptions = EMPTY_OPTS,
+  ): Promise<string> {
+    const { result } = await this._request({
+      method: 'PUT',
+      key: filename,
+      query: { partNumber: `${partNumber}`, uploadId },
+      headers: getCustomerKeyHeaders(ENCRYPTION, options.encryption),
+      body,
+      returnStream: true,
+    });
+    result?.body?.resume();
+    return trimETag(result?.responseHeaders?.etag);
+  }
+  async uploadPartCopy(
+    dest: string,
+    uploadId: string,
+    partNumber: number,
+    source: CopyPartSource,
+    options: UploadPartOptions = EMPTY_OPTS,
+  ): Promise<string> {
+    const { result } = await this._request({
+      method: 'PUT',
+      key: dest,
+      query: { partNumber: `${partNumber}`, uploadId },
+      headers: {
+        'x-cos-copy-source': this._getCopySource(source.key, source.bucket),
+        'x-cos-copy-source-range': `bytes=${source.start}-${source.end}`,
+        ...getCustomerKeyHeaders(ENCRYPTION, source.encryption, true),
+        ...getCustomerKeyHeaders(ENCRYPTION, options.encryption),
+      },
+    });
+    return trimETag((result?.CopyPartResult as { ETag: string } | undefined)?.ETag);
+  }
+  async completeMultipartUpload(filename: string, uploadId: string, parts: MultipartPart[]): Promise<void> {
+    await this._request({
+      method: 'POST',
+      key: filename,
+      query: { uploadId },
+      headers: { 'Content-Type': 'application/xml' },
+      body: this._buildCompleteMultipartBody(parts),
+    });
+  }
+  async abortMultipartUpload(filename: string, uploadId: string): Promise<void> {
+    await this._request({ method: 'DELETE', key: filename, query: { uploadId } });
+  }
+  async listParts(filename: string, uploadId: string): Promise<MultipartPart[]> {
+    const parts: MultipartPart[] = [];
+    let marker: string | undefined;
+    do {
+      const query: Record<string, string> = { uploadId };
+      if (marker) query['part-number-marker'] = marker;
+      const { result } = await this._request({ method: 'GET', key: filename, query });
+      const page = parseListPartsResult(result);
+      parts.push(...page.parts);
+      marker = page.nextPartNumberMarker;
+    } while (marker);
+    return parts;
   }
 }
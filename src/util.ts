@@ -1,7 +1,9 @@
-import type { Writable } from 'stream';
+import { createReadStream } from 'fs';
+import type { Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream';
 import { formatRFC7231 } from 'date-fns';
-
-export const TIMEOUT_ERROR = new Error('waitForDrain timeout');
+import type { ObjectBody } from './common';
+import { TimeoutError } from './errors';
 
 /**
  * 等待流的 drain 事件
@@ -15,7 +17,7 @@ export async function waitForDrain(s: Writable, timeout = 10000): Promise<void>
       tm: setTimeout(function () {
         if (done) return;
         ctx.clear();
-        reject(TIMEOUT_ERROR);
+        reject(new TimeoutError('waitForDrain timeout'));
       }, timeout),
       onDrain: function (): void {
         if (done) return;
@@ -54,6 +56,161 @@ export async function waitForDrain(s: Writable, timeout = 10000): Promise<void>
   });
 }
 
-export function gmt() {
-  return formatRFC7231(new Date());
+export function gmt(date = new Date()) {
+  return formatRFC7231(date);
+}
+
+/**
+ * xml2js 在 explicitArray: false 模式下，单个子节点会被解析为对象而不是数组，统一转换为数组。
+ */
+export function toArray<T>(v: T | T[] | undefined | null): T[] {
+  if (v === undefined || v === null) return [];
+  return Array.isArray(v) ? v : [v];
+}
+
+/**
+ * 按 RFC 3986 做 url 编码，与 encodeURIComponent 相比还会编码 `!'()*`。
+ * AWS V4 签名要求请求中的编码与签名时的编码完全一致。
+ */
+export function uriEncode(str: string): string {
+  return encodeURIComponent(str).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * 对 object key 做 url 编码，保留路径分隔符 `/`。
+ */
+export function encodeKey(key: string): string {
+  return key.split('/').map(uriEncode).join('/');
+}
+
+/**
+ * 生成 query string（不含 `?`），值为空字符串的参数只输出参数名，例如 `uploads`。
+ */
+export function stringifyQuery(query?: Record<string, string>): string {
+  if (!query) return '';
+  return Object.keys(query)
+    .map((k) => (query[k] === '' ? uriEncode(k) : `${uriEncode(k)}=${uriEncode(query[k])}`))
+    .join('&');
+}
+
+/**
+ * 去掉 ETag 两端的双引号。
+ */
+export function trimETag(etag?: string): string {
+  return etag ? etag.replace(/^"|"$/g, '') : '';
+}
+
+/**
+ * 以有限的并发数执行异步任务。任务出错后不再接受新任务，错误会在 add 或 drain 时抛出。
+ */
+export class ConcurrencyPool {
+  private _concurrency: number;
+  private _running = new Set<Promise<void>>();
+  private _error: Error | null = null;
+  constructor(concurrency: number) {
+    this._concurrency = Math.max(1, concurrency);
+  }
+  /**
+   * 添加任务。如果正在执行的任务数已达到并发上限，则等待其中一个完成。
+   */
+  async add(task: () => Promise<void>): Promise<void> {
+    while (!this._error && this._running.size >= this._concurrency) {
+      await Promise.race(this._running);
+    }
+    if (this._error) throw this._error;
+    const p: Promise<void> = task().then(
+      () => {
+        this._running.delete(p);
+      },
+      (err) => {
+        this._running.delete(p);
+        this._error ??= err;
+      },
+    );
+    this._running.add(p);
+  }
+  /**
+   * 等待所有任务完成。
+   */
+  async drain(): Promise<void> {
+    await Promise.all(this._running);
+    if (this._error) throw this._error;
+  }
+}
+
+/** http 头中合法的元数据 key */
+const METADATA_KEY_RE = /^[a-z0-9!#$%&'*+.^_`|~-]+$/i;
+function checkMetadataKey(key: string): string {
+  if (!METADATA_KEY_RE.test(key)) {
+    throw new Error(`invalid metadata key "${key}", only ASCII letters, digits and -_. are recommended`);
+  }
+  return key;
+}
+/**
+ * 编码元数据的值。包含非 ASCII 字符或首尾空白的值按 RFC 2047 编码为 `=?UTF-8?B?...?=`，读取时由 decodeMetadataValue 还原。
+ */
+export function encodeMetadataValue(value: string): string {
+  if (/^[\x21-\x7e]([\x20-\x7e]*[\x21-\x7e])?$/.test(value) || value === '') return value;
+  return `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+export function decodeMetadataValue(value: string): string {
+  const m = /^=\?UTF-8\?B\?([A-Za-z0-9+/]*={0,2})\?=$/i.exec(value);
+  return m ? Buffer.from(m[1], 'base64').toString() : value;
+}
+/**
+ * 将用户元数据转换为带厂商前缀的请求头，key 转为小写，值按 encodeMetadataValue 编码。
+ * @param prefix 例如 `x-oss-meta-`
+ */
+export function toMetadataHeaders(prefix: string, metadata?: Record<string, string>): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const k in metadata) {
+    headers[`${prefix}${checkMetadataKey(k).toLowerCase()}`] = encodeMetadataValue(metadata[k]);
+  }
+  return headers;
+}
+
+/**
+ * 从写入的 headers 和 metadata 选项中提取用户元数据，headers 兼容各云厂商的前缀，例如 x-oss-meta-foo、x-amz-meta-foo。
+ */
+export function getUserMetadata(
+  headers: Record<string, string> = {},
+  userMetadata?: Record<string, string>,
+): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  for (const k in headers) {
+    const m = /^x-[a-z]+-meta-(.+)$/.exec(k.toLowerCase());
+    if (m) metadata[m[1]] = decodeMetadataValue(headers[k]);
+  }
+  for (const k in userMetadata) {
+    metadata[checkMetadataKey(k).toLowerCase()] = userMetadata[k];
+  }
+  return metadata;
+}
+
+/**
+ * 请求体是否可以重复读取。只有可重复读取的请求体才能在失败后重试。
+ */
+export function isReplayableBody(body: ObjectBody | undefined): boolean {
+  return body === undefined || !isReadable(body);
+}
+
+/**
+ * 打开请求体：字符串视为本地文件路径，函数调用后返回新的 Readable，Buffer 和 Readable 原样返回。
+ */
+export function openBody(body: ObjectBody): Readable | Buffer {
+  if (typeof body === 'string') return createReadStream(body);
+  if (typeof body === 'function') return body();
+  return body;
+}
+
+function isReadable(body: ObjectBody): body is Readable {
+  return typeof body === 'object' && !Buffer.isBuffer(body);
+}
+
+/**
+ * 把 source 接到 transform 上，source 出错时 transform 以同样的错误结束。
+ */
+export function pipeThrough(source: Readable, transform: Transform): Transform {
+  pipeline(source, transform, () => undefined);
+  return transform;
 }